@@ -1,3 +1,4 @@
+import { readFile } from 'fs/promises'
 import process from 'process'
 
 import builtins from 'builtin-modules'
@@ -11,12 +12,32 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = process.argv[2] === 'production'
 
+// Bundle only the fields used for multilingual search from emojibase locale data
+const emojibaseLocalePlugin = {
+	name: 'emojibase-locale',
+	setup(build) {
+		build.onLoad(
+			{ filter: /emojibase-data[\\/][^\\/]+[\\/]compact\.json$/ },
+			async (args) => {
+				const data = JSON.parse(await readFile(args.path, 'utf8'))
+				const stripped = data.map(({ hexcode, label, tags }) => ({
+					hexcode,
+					label,
+					tags,
+				}))
+				return { contents: JSON.stringify(stripped), loader: 'json' }
+			}
+		)
+	},
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
 	},
 	entryPoints: ['src/main.ts'],
 	bundle: true,
+	plugins: [emojibaseLocalePlugin],
 	external: [
 		'obsidian',
 		'electron',
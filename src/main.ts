@@ -1,33 +1,100 @@
-import { Plugin, Notice } from 'obsidian'
+import { Editor, MarkdownView, Plugin, Notice } from 'obsidian'
 
 import { type Emoji } from '@emoji-mart/data'
 
 import { EmojiCodeMirrorExtension } from './rendering/codemirror-extension'
+import { ShortcodeDiagnosticsExtension } from './rendering/diagnostics-extension'
 import { EmojiMarkdownProcessor } from './rendering/markdown-processor'
-import { clearSearchIndex } from './services/emoji-service'
+import { NoteIconRenderer } from './rendering/note-icons'
+import { CustomEmojiService } from './services/custom-emoji-service'
+import { clearLocaleCache } from './services/emoji-i18n'
+import { EmojiIndex } from './services/emoji-index'
+import {
+	clearEmojiLookup,
+	clearSearchIndex,
+	getEmojiLookup,
+	type ResolvedEmojiIds,
+	setSearchLanguages,
+} from './services/emoji-service'
+import { EmoticonService } from './services/emoticon-service'
+import {
+	clearNativeMatcherCache,
+	type ConversionOptions,
+	convertEditorEmojis,
+} from './services/format-converter'
+import { type EmojiInsertSource, QuickEmojiApi } from './services/plugin-api'
+import {
+	clearDialectCache,
+	setShortcodeDialects,
+} from './services/shortcode-dialects'
+import { EmojiUsageTracker } from './storage/emoji-usage'
+import {
+	addFavorite,
+	type FavoriteGroup,
+	isFavorite,
+	removeFavorite,
+} from './storage/favorites'
 import { EmojiStorageMigration } from './storage/migration'
+import { SettingsMigration } from './storage/settings-migration'
+import { EmojiCommands } from './ui/emoji-commands'
+import { EMOJI_INDEX_VIEW_TYPE, EmojiIndexView } from './ui/emoji-index-view'
+import { EmojiPickerModal } from './ui/emoji-picker-modal'
 import { EmojiSuggester } from './ui/emoji-suggester'
+import { EmoticonReplacer } from './ui/emoticon-replacer'
 import {
 	QuickEmojiSettingTab,
 	DEFAULT_SETTINGS,
+	type InsertionFormat,
 	type QuickEmojiSettings,
+	type SkinSetting,
 } from './ui/settings-tab'
+import { UnresolvedShortcodesModal } from './ui/unresolved-shortcodes-modal'
+import { VaultMigrationModal } from './ui/vault-migration-modal'
+import { setEmojiSkinTones } from './utils'
 
 export default class QuickEmojiPlugin extends Plugin {
 	settings: QuickEmojiSettings
-	recentEmojis: string[] = [] // Changed to store emoji IDs instead of full objects
+	recentEmojis: string[] = [] // Emoji IDs ranked by usage score, capped at recentCount
+	emojiUsage: EmojiUsageTracker = new EmojiUsageTracker()
 	emojiSuggester: EmojiSuggester
-	storageKey = 'quick-emoji-recent' // Namespaced storage key
+	customEmojis: CustomEmojiService
+	emoticons: EmoticonService
+	noteIcons: NoteIconRenderer
+	emojiIndex: EmojiIndex
+	api: QuickEmojiApi // Public API for other plugins and scripts
+	emojiCommands: EmojiCommands
+	renderVersion = 0 // Bumped to force Live Preview decorations to rebuild
+	storageKey = 'quick-emoji-recent' // Namespaced storage key (legacy recent list)
+	usageStorageKey = 'quick-emoji-usage' // Namespaced storage key for usage statistics
 
 	async onload() {
 		await this.loadSettings()
 
+		// Merge keywords for the chosen search languages once the index loads
+		await setSearchLanguages(this.settings.searchLanguages)
+
+		// Load the shortcode dialects that renderers and converters resolve
+		await setShortcodeDialects(this.getShortcodeDialects())
+
 		// Initialize core components
 		this.initializeComponents()
 
 		// Set up rendering systems
 		this.setupRendering()
 
+		// Register editor commands
+		this.registerCommands()
+
+		// Custom emojis need the vault index, so scan once the layout is ready
+		this.app.workspace.onLayoutReady(() => {
+			this.customEmojis.scan()
+			this.customEmojis.registerEvents()
+			this.noteIcons.registerEvents()
+			this.emojiIndex.registerEvents()
+			this.refreshEmojiRendering()
+			this.emojiCommands.refreshFavoriteCommands()
+		})
+
 		if (process.env.NODE_ENV === 'development') {
 			console.log('Quick Emoji plugin loaded.')
 		}
@@ -37,10 +104,34 @@ export default class QuickEmojiPlugin extends Plugin {
 	 * Initialize core plugin components
 	 */
 	private initializeComponents(): void {
+		// Custom image emojis from the configured vault folder
+		this.customEmojis = new CustomEmojiService(this)
+
+		// Public API, reachable through app.plugins.plugins['quick-emoji'].api
+		this.api = new QuickEmojiApi(this)
+
 		// Register the emoji suggester
 		this.emojiSuggester = new EmojiSuggester(this)
 		this.registerEditorSuggest(this.emojiSuggester)
 
+		// Replace typed emoticons with emojis
+		this.emoticons = new EmoticonService(this)
+		this.registerEditorExtension(
+			new EmoticonReplacer(this).createExtension()
+		)
+
+		// Sidebar index of the emojis used in the vault
+		this.emojiIndex = new EmojiIndex(this)
+		this.registerView(
+			EMOJI_INDEX_VIEW_TYPE,
+			(leaf) => new EmojiIndexView(leaf, this)
+		)
+
+		// Ribbon icon for the full emoji picker
+		this.addRibbonIcon('smile-plus', 'Open emoji picker', () =>
+			new EmojiPickerModal(this.app, this).open()
+		)
+
 		// Add settings tab
 		this.addSettingTab(new QuickEmojiSettingTab(this.app, this))
 	}
@@ -56,6 +147,218 @@ export default class QuickEmojiPlugin extends Plugin {
 		// Set up CodeMirror extension for Live Preview
 		const codeMirrorExtension = new EmojiCodeMirrorExtension(this)
 		this.registerEditorExtension(codeMirrorExtension.createExtension())
+
+		// Underline unknown shortcodes, with quick fixes in the context menu
+		const diagnostics = new ShortcodeDiagnosticsExtension(this)
+		this.registerEditorExtension(diagnostics.createExtension())
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu, editor) =>
+				diagnostics.addQuickFixes(menu, editor)
+			)
+		)
+
+		// Note icons from frontmatter in the file explorer, tabs and titles
+		this.noteIcons = new NoteIconRenderer(this)
+	}
+
+	/**
+	 * Register editor commands
+	 */
+	private registerCommands(): void {
+		this.addCommand({
+			id: 'open-emoji-picker',
+			name: 'Open emoji picker',
+			callback: () => new EmojiPickerModal(this.app, this).open(),
+		})
+
+		this.addCommand({
+			id: 'open-emoji-index',
+			name: 'Open emoji index',
+			callback: () => this.activateEmojiIndex(),
+		})
+
+		// Hotkey-bindable favorite and last used emoji commands
+		this.emojiCommands = new EmojiCommands(this)
+		this.emojiCommands.register()
+
+		this.addCommand({
+			id: 'convert-shortcodes-to-unicode',
+			name: 'Convert shortcodes to Unicode emojis in note or selection',
+			editorCallback: (editor) =>
+				this.convertEmojisInEditor(editor, 'unicode'),
+		})
+
+		this.addCommand({
+			id: 'convert-unicode-to-shortcodes',
+			name: 'Convert Unicode emojis to shortcodes in note or selection',
+			editorCallback: (editor) =>
+				this.convertEmojisInEditor(editor, 'shortcode'),
+		})
+
+		this.addCommand({
+			id: 'list-unresolved-shortcodes',
+			name: 'List unresolved shortcodes in current note',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile()
+				if (!file || file.extension !== 'md') return false
+				if (!checking) {
+					new UnresolvedShortcodesModal(
+						this.app,
+						this,
+						[file],
+						'this note'
+					).open()
+				}
+				return true
+			},
+		})
+
+		this.addCommand({
+			id: 'list-unresolved-shortcodes-vault',
+			name: 'List unresolved shortcodes in vault',
+			callback: () =>
+				new UnresolvedShortcodesModal(
+					this.app,
+					this,
+					this.app.vault.getMarkdownFiles(),
+					'the vault'
+				).open(),
+		})
+
+		this.addCommand({
+			id: 'set-note-icon',
+			name: 'Set note icon',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile()
+				if (!file || file.extension !== 'md') return false
+				if (!this.noteIcons.getProperty()) return false
+				if (!checking) this.noteIcons.pickIcon(file)
+				return true
+			},
+		})
+
+		this.addCommand({
+			id: 'remove-note-icon',
+			name: 'Remove note icon',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile()
+				if (!file || file.extension !== 'md') return false
+				if (!this.noteIcons.getProperty()) return false
+				if (!checking) this.noteIcons.setIcon(file, null)
+				return true
+			},
+		})
+
+		this.addCommand({
+			id: 'convert-vault-emojis',
+			name: 'Convert emojis in vault to insertion format',
+			callback: () => new VaultMigrationModal(this.app, this).open(),
+		})
+	}
+
+	/**
+	 * Reveal the emoji index in the right sidebar, opening it if needed
+	 */
+	async activateEmojiIndex(): Promise<void> {
+		const { workspace } = this.app
+		let leaf = workspace.getLeavesOfType(EMOJI_INDEX_VIEW_TYPE)[0]
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false)
+			if (!rightLeaf) return
+			await rightLeaf.setViewState({
+				type: EMOJI_INDEX_VIEW_TYPE,
+				active: true,
+			})
+			leaf = rightLeaf
+		}
+		await workspace.revealLeaf(leaf)
+	}
+
+	/**
+	 * Convert all emojis in the current selection (or note) to a format
+	 * and report the outcome
+	 */
+	private async convertEmojisInEditor(
+		editor: Editor,
+		target: InsertionFormat
+	): Promise<void> {
+		try {
+			const { changes, unknown } = await convertEditorEmojis(
+				editor,
+				target,
+				this.getConversionOptions()
+			)
+
+			let message = `Quick Emoji: Converted ${changes.length} ${changes.length === 1 ? 'emoji' : 'emojis'}.`
+			if (unknown.length > 0) {
+				message += ` Skipped ${unknown.length} unknown ${unknown.length === 1 ? 'shortcode' : 'shortcodes'}.`
+			}
+			new Notice(message)
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Failed to convert emojis', error)
+			}
+			new Notice('Quick Emoji: Failed to convert emojis.')
+		}
+	}
+
+	/**
+	 * Options for converting and checking shortcodes with the current
+	 * skin tone, aliases, dialect and custom emojis
+	 */
+	getConversionOptions(): ConversionOptions {
+		return {
+			skin: this.settings.skin,
+			aliases: this.settings.aliases,
+			dialect: this.settings.insertionDialect,
+			isCustomEmoji: (shortcode) => !!this.customEmojis.get(shortcode),
+		}
+	}
+
+	/**
+	 * Dialects to resolve: the enabled ones plus the insertion dialect,
+	 * so inserted shortcodes always render
+	 */
+	getShortcodeDialects() {
+		return [
+			...this.settings.shortcodeDialects,
+			this.settings.insertionDialect,
+		]
+	}
+
+	/**
+	 * Reload shortcode dialects after the dialect settings change
+	 */
+	async updateShortcodeDialects(): Promise<void> {
+		await setShortcodeDialects(this.getShortcodeDialects())
+		this.refreshEmojiRendering()
+	}
+
+	/**
+	 * Re-render emojis in open notes after the set of resolvable
+	 * shortcodes changes (e.g. custom emojis were added or removed)
+	 */
+	refreshEmojiRendering(): void {
+		this.renderVersion++
+
+		// Emoticons may point at aliases or custom emojis
+		this.emoticons.load()
+
+		// Live Preview: reconfiguring editors triggers a decorator update
+		this.app.workspace.updateOptions()
+
+		// Reading Mode: re-run the markdown post-processors
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (leaf.view instanceof MarkdownView) {
+				leaf.view.previewMode.rerender(true)
+			}
+		})
+
+		// Note icons may be shortcodes of aliases or custom emojis
+		this.noteIcons.reload()
+
+		// Re-index notes if aliases, dialects or custom emojis changed
+		this.emojiIndex.invalidate()
 	}
 
 	onunload() {
@@ -72,8 +375,31 @@ export default class QuickEmojiPlugin extends Plugin {
 			this.recentEmojis.length = 0
 		}
 
-		// Clear the module-level emoji search index cache
+		// Drop the custom emoji registry and emoticon table
+		if (this.customEmojis) {
+			this.customEmojis.clear()
+		}
+		if (this.emoticons) {
+			this.emoticons.clear()
+		}
+
+		// Drop the vault emoji index
+		if (this.emojiIndex) {
+			this.emojiIndex.clear()
+		}
+
+		// Remove note icons from the file explorer, tabs and titles
+		if (this.noteIcons) {
+			this.noteIcons.clear()
+		}
+
+		// Clear the module-level emoji search index, matcher, locale and
+		// dialect caches
 		clearSearchIndex()
+		clearEmojiLookup()
+		clearNativeMatcherCache()
+		clearLocaleCache()
+		clearDialectCache()
 
 		if (process.env.NODE_ENV === 'development') {
 			console.log('Quick Emoji plugin unloaded and cleaned up.')
@@ -81,13 +407,9 @@ export default class QuickEmojiPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		// Load plugin settings
+		// Load plugin settings, upgrading and validating stored data
 		try {
-			this.settings = Object.assign(
-				{},
-				DEFAULT_SETTINGS,
-				await this.loadData()
-			)
+			this.settings = await new SettingsMigration(this).load()
 		} catch (e) {
 			if (process.env.NODE_ENV === 'development') {
 				console.error('Failed to load plugin settings', e)
@@ -95,15 +417,56 @@ export default class QuickEmojiPlugin extends Plugin {
 			new Notice(
 				'Quick Emoji: Failed to load plugin settings. Using defaults.'
 			)
-			this.settings = Object.assign({}, DEFAULT_SETTINGS)
+			this.settings = structuredClone(DEFAULT_SETTINGS)
 		}
 
-		// Load and migrate recent emojis using migration service
-		const migration = new EmojiStorageMigration(this.app, this.storageKey)
-		this.recentEmojis = await migration.migrateRecentEmojis()
-		this.recentEmojis = await migration.cleanupRecentEmojis(
-			this.recentEmojis
-		)
+		// Per-emoji skin tones override the default in getEmojiWithSkin
+		setEmojiSkinTones(this.settings.skinTones)
+
+		// Load usage statistics from plugin data when synced, otherwise
+		// from this device, migrating the legacy recent list if needed
+		const migration = this.getStorageMigration()
+		if (this.settings.syncRecentEmojis) {
+			this.emojiUsage = new EmojiUsageTracker(
+				migration.cleanupUsageData(this.settings.emojiUsage)
+			)
+
+			// One-time move of history still stored on this device
+			const localUsage = await migration.migrateToPluginData()
+			if (localUsage && this.emojiUsage.merge(localUsage)) {
+				this.settings.emojiUsage = this.emojiUsage.toJSON()
+				await this.saveSettings()
+			}
+		} else {
+			this.emojiUsage = new EmojiUsageTracker(
+				await migration.migrateUsageData()
+			)
+		}
+		this.updateRecentEmojis()
+	}
+
+	/**
+	 * Reload settings after data.json was changed by another device
+	 * (Obsidian Sync, git), merging in the uses recorded on this device
+	 * since the last sync
+	 */
+	async onExternalSettingsChange() {
+		const previousUsage = this.emojiUsage.toJSON()
+		await this.loadSettings()
+
+		if (this.emojiUsage.merge(previousUsage)) {
+			this.updateRecentEmojis()
+			await this.saveUsage()
+		}
+		this.refreshEmojiRendering()
+		await this.emojiCommands.refreshFavoriteCommands()
+	}
+
+	/**
+	 * Re-rank the recent emoji list from usage statistics
+	 */
+	updateRecentEmojis(): void {
+		this.recentEmojis = this.emojiUsage.getRanked(this.settings.recentCount)
 	}
 
 	async saveSettings() {
@@ -119,30 +482,160 @@ export default class QuickEmojiPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Check if an emoji is in any favorite group
+	 */
+	isFavorite(emojiId: string): boolean {
+		return isFavorite(this.settings.favoriteGroups, emojiId)
+	}
+
+	/**
+	 * Add an emoji to the first favorite group, or remove it from all groups
+	 * @returns Whether the emoji is a favorite afterwards
+	 */
+	async toggleFavorite(emojiId: string): Promise<boolean> {
+		const groups = this.settings.favoriteGroups
+		await this.setFavoriteGroups(
+			isFavorite(groups, emojiId)
+				? removeFavorite(groups, emojiId)
+				: addFavorite(groups, emojiId)
+		)
+		return this.isFavorite(emojiId)
+	}
+
+	/**
+	 * Replace the favorite groups and save them
+	 */
+	async setFavoriteGroups(groups: FavoriteGroup[]): Promise<void> {
+		this.settings.favoriteGroups = groups
+		await this.saveSettings()
+		await this.emojiCommands.refreshFavoriteCommands()
+	}
+
+	/**
+	 * Resolve stored emoji IDs such as favorites and recents exactly:
+	 * custom emojis first, then emoji-mart IDs, aliases and characters
+	 * @param ids - The stored IDs
+	 * @returns The resolved emojis, and the IDs that didn't resolve
+	 */
+	async resolveEmojiIds(ids: string[]): Promise<ResolvedEmojiIds> {
+		const resolved: ResolvedEmojiIds = { emojis: new Map(), unresolved: [] }
+		const lookup = await getEmojiLookup()
+
+		for (const id of new Set(ids)) {
+			const emoji =
+				this.customEmojis.get(id) ??
+				lookup?.resolve(id, this.settings.aliases) ??
+				null
+			if (emoji) {
+				resolved.emojis.set(id, emoji)
+			} else {
+				resolved.unresolved.push(id)
+			}
+		}
+
+		if (
+			resolved.unresolved.length > 0 &&
+			process.env.NODE_ENV === 'development'
+		) {
+			console.log(
+				'Quick Emoji: Could not resolve emoji IDs:',
+				resolved.unresolved
+			)
+		}
+		return resolved
+	}
+
+	/**
+	 * Remember a skin tone for one emoji, or forget it with null so the
+	 * default skin tone applies again
+	 */
+	async setSkinTone(
+		emojiId: string,
+		skinTone: SkinSetting | null
+	): Promise<void> {
+		const { [emojiId]: _previous, ...skinTones } = this.settings.skinTones
+		this.settings.skinTones =
+			skinTone === null
+				? skinTones
+				: { ...skinTones, [emojiId]: skinTone }
+		setEmojiSkinTones(this.settings.skinTones)
+		await this.saveSettings()
+		this.refreshEmojiRendering()
+	}
+
+	/**
+	 * Tell API subscribers that an emoji was written to a note
+	 * @param text - The inserted text, a character or a shortcode
+	 */
+	emitEmojiInserted(
+		emoji: Emoji,
+		text: string,
+		source: EmojiInsertSource
+	): void {
+		if (!text) return
+		this.api.trigger('emoji-inserted', { emoji, text, source })
+	}
+
 	saveRecentEmoji(emoji: Emoji) {
 		if (!emoji || !emoji.id) return
 
-		// Add emoji ID to the beginning, remove duplicates
-		this.recentEmojis = [
-			emoji.id,
-			...this.recentEmojis.filter((id) => id !== emoji.id),
-		].slice(0, this.settings.recentCount)
+		// Count the use and re-rank the recent list
+		this.emojiUsage.record(emoji.id)
+		this.updateRecentEmojis()
 
-		try {
-			this.app.saveLocalStorage(
-				this.storageKey,
-				JSON.stringify(this.recentEmojis)
-			)
-		} catch (e) {
-			if (process.env.NODE_ENV === 'development') {
-				console.error('Failed to save recent emojis to localStorage', e)
-			}
+		this.saveUsage()
+	}
+
+	/**
+	 * Persist usage statistics to plugin data or this device's storage
+	 */
+	async saveUsage(): Promise<void> {
+		if (this.settings.syncRecentEmojis) {
+			this.settings.emojiUsage = this.emojiUsage.toJSON()
+			await this.saveSettings()
+		} else {
+			this.getStorageMigration().saveUsageData(this.emojiUsage.toJSON())
+		}
+	}
+
+	/**
+	 * Switch between synced (plugin data) and per-device usage history,
+	 * moving the current history to the new location
+	 */
+	async setUsageSync(enabled: boolean): Promise<void> {
+		const migration = this.getStorageMigration()
+		this.settings.syncRecentEmojis = enabled
+
+		if (enabled) {
+			const localUsage = await migration.migrateToPluginData()
+			if (localUsage) this.emojiUsage.merge(localUsage)
+			this.settings.emojiUsage = this.emojiUsage.toJSON()
+		} else {
+			migration.saveUsageData(this.emojiUsage.toJSON())
+			this.settings.emojiUsage = {}
 		}
+
+		this.updateRecentEmojis()
+		await this.saveSettings()
 	}
 
 	async clearRecentEmojis() {
+		this.emojiUsage.clear()
 		this.recentEmojis = []
-		const migration = new EmojiStorageMigration(this.app, this.storageKey)
-		await migration.clearRecentEmojis()
+		await this.getStorageMigration().clearRecentEmojis()
+
+		if (this.settings.syncRecentEmojis) {
+			this.settings.emojiUsage = {}
+			await this.saveSettings()
+		}
+	}
+
+	private getStorageMigration(): EmojiStorageMigration {
+		return new EmojiStorageMigration(
+			this.app,
+			this.storageKey,
+			this.usageStorageKey
+		)
 	}
 }
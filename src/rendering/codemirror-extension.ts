@@ -1,40 +1,111 @@
-import { MarkdownView } from 'obsidian'
+import { MarkdownView, Notice } from 'obsidian'
 
+import { syntaxTree } from '@codemirror/language'
 import { RangeSetBuilder } from '@codemirror/state'
 import {
 	ViewPlugin,
 	Decoration,
 	DecorationSet,
+	EditorView,
 	ViewUpdate,
 	WidgetType,
 } from '@codemirror/view'
 import type { Emoji } from '@emoji-mart/data'
 
-import { SHORTCODE_REGEX, getEmojiMap, shouldSkipLine } from './emoji-renderer'
+import {
+	SHORTCODE_REGEX,
+	getEmojiMap,
+	getShortcodeCharacter,
+	lookupShortcode,
+	shouldSkipLine,
+} from './emoji-renderer'
+import { getExcludedRanges, isExcluded, isParsed } from './syntax-ranges'
 
 import type QuickEmojiPlugin from '../main'
+import { EmojiPickerModal } from '../ui/emoji-picker-modal'
+import {
+	type CustomEmoji,
+	createCustomEmojiImage,
+	formatEmoji,
+	getEmojiTooltip,
+} from '../utils'
 
 /**
- * Widget class for rendering emojis in CodeMirror
+ * Widget class for rendering emojis in CodeMirror.
+ * Hovering shows the emoji's details, clicking opens the picker to swap it
+ * for another emoji.
  */
 class EmojiWidget extends WidgetType {
 	constructor(
-		private emoji: string,
-		private shortcode: string
+		private emoji: string | CustomEmoji,
+		private shortcode: string,
+		private tooltip: string,
+		private plugin: QuickEmojiPlugin
 	) {
 		super()
 	}
 
-	toDOM() {
-		const span = document.createElement('span')
-		span.className = 'cm-emoji qe-emoji'
-		span.textContent = this.emoji
-		span.setAttribute('data-shortcode', this.shortcode)
-		return span
+	toDOM(view: EditorView) {
+		// Custom emojis render as images
+		let el: HTMLElement
+		if (typeof this.emoji !== 'string') {
+			el = createCustomEmojiImage(
+				this.emoji,
+				'cm-emoji qe-emoji qe-custom-emoji'
+			)
+		} else {
+			el = document.createElement('span')
+			el.className = 'cm-emoji qe-emoji'
+			el.textContent = this.emoji
+		}
+		el.setAttribute('data-shortcode', this.shortcode)
+		el.setAttribute('aria-label', this.tooltip)
+		el.addEventListener('click', (evt) => {
+			evt.preventDefault()
+			this.swap(view, el)
+		})
+		return el
 	}
 
 	eq(other: EmojiWidget) {
-		return other.emoji === this.emoji && other.shortcode === this.shortcode
+		return (
+			this.getKey(other.emoji) === this.getKey(this.emoji) &&
+			other.shortcode === this.shortcode &&
+			other.tooltip === this.tooltip
+		)
+	}
+
+	private getKey(emoji: string | CustomEmoji): string {
+		return typeof emoji === 'string' ? emoji : emoji.src
+	}
+
+	/**
+	 * Open the emoji picker and replace this occurrence with the chosen emoji
+	 */
+	private swap(view: EditorView, el: HTMLElement): void {
+		const from = view.posAtDOM(el)
+		new EmojiPickerModal(this.plugin.app, this.plugin, (emoji) => {
+			// Make sure the shortcode is still there after the picker closes
+			const to = from + this.shortcode.length
+			if (view.state.doc.sliceString(from, to) !== this.shortcode) {
+				new Notice('Quick Emoji: The emoji has moved, try again.')
+				return
+			}
+
+			// Keep the occurrence a shortcode, in the configured dialect
+			const text = formatEmoji(
+				emoji,
+				'shortcode',
+				this.plugin.settings.skin,
+				this.plugin.settings.insertionDialect
+			)
+			view.dispatch({
+				changes: { from, to, insert: text },
+				userEvent: 'input.emoji',
+			})
+			this.plugin.emitEmojiInserted(emoji, text, 'swap')
+			view.focus()
+		}).open()
 	}
 }
 
@@ -56,14 +127,25 @@ export class EmojiCodeMirrorExtension {
 				decorations: DecorationSet
 				emojiMap: Record<string, Emoji> = {}
 				private lastMode: string | null = null
+				private renderVersion = pluginInstance.renderVersion
 
 				constructor(view: ViewUpdate['view']) {
 					this.decorations = this.buildDecorations(view)
 				}
 
 				update(update: ViewUpdate) {
-					// Always rebuild for document changes or viewport changes
-					if (update.docChanged || update.viewportChanged) {
+					// Always rebuild for document changes, viewport changes, moved
+					// cursors, parser progress, or when the plugin asks for a
+					// refresh (e.g. custom emojis changed)
+					if (
+						update.docChanged ||
+						update.viewportChanged ||
+						update.selectionSet ||
+						syntaxTree(update.startState) !==
+							syntaxTree(update.state) ||
+						this.renderVersion !== pluginInstance.renderVersion
+					) {
+						this.renderVersion = pluginInstance.renderVersion
 						this.decorations = this.buildDecorations(update.view)
 						return
 					}
@@ -150,6 +232,12 @@ export class EmojiCodeMirrorExtension {
 					pluginInstance: QuickEmojiPlugin
 				): void {
 					const text = view.state.doc.sliceString(from, to)
+					// Code, math, link URLs and frontmatter from the syntax tree
+					const excludedRanges = getExcludedRanges(
+						view.state,
+						from,
+						to
+					)
 
 					// Use matchAll for global matching since regex no longer has 'g' flag
 					const matches = text.matchAll(
@@ -161,12 +249,19 @@ export class EmojiCodeMirrorExtension {
 						const end = start + match[0].length
 						const shortcodeId = match[1]
 
-						// Enhanced boundary detection - skip if we're in code or math contexts
-						const line = view.state.doc.lineAt(start)
-						const lineText = line.text
+						// Skip shortcodes in code, math, link URLs and frontmatter
+						if (isParsed(view.state, end)) {
+							if (isExcluded(excludedRanges, start, end)) continue
+						} else if (
+							// Not parsed yet, fall back to line-based detection
+							shouldSkipLine(view.state.doc.lineAt(start).text)
+						) {
+							continue
+						}
 
-						// Use shared boundary detection logic
-						if (shouldSkipLine(lineText)) {
+						// Show the raw shortcode while a cursor or selection
+						// touches it, like Obsidian does for other syntax
+						if (this.isTouchedBySelection(view, start, end)) {
 							continue
 						}
 
@@ -182,6 +277,20 @@ export class EmojiCodeMirrorExtension {
 					}
 				}
 
+				/**
+				 * Check if any selection range touches or lies inside a range,
+				 * so every cursor of a multi-cursor edit reveals its shortcode
+				 */
+				private isTouchedBySelection(
+					view: ViewUpdate['view'],
+					start: number,
+					end: number
+				): boolean {
+					return view.state.selection.ranges.some(
+						(range) => range.from <= end && range.to >= start
+					)
+				}
+
 				/**
 				 * Create emoji decoration for a specific shortcode
 				 */
@@ -193,26 +302,43 @@ export class EmojiCodeMirrorExtension {
 					builder: RangeSetBuilder<Decoration>,
 					pluginInstance: QuickEmojiPlugin
 				): void {
-					// Look up emoji in cached map
-					const emojiData =
-						this.emojiMap[shortcodeId] ||
-						this.emojiMap[shortcodeId.toLowerCase()]
-
-					if (emojiData && emojiData.skins) {
-						const emojiObj = {
-							id: emojiData.id,
-							name: emojiData.name,
-							skins: emojiData.skins,
-						} as Emoji
-
-						// Resolve emoji character with skin tone (synchronous since map is cached)
-						const emojiChar = this.getEmojiWithSkinSync(
-							emojiObj,
+					// Custom image emojis take precedence over built-in ids
+					const customEmoji =
+						pluginInstance.customEmojis.get(shortcodeId)
+					if (customEmoji) {
+						const widget = new EmojiWidget(
+							customEmoji,
+							fullMatch,
+							getEmojiTooltip(customEmoji, fullMatch),
+							pluginInstance
+						)
+						builder.add(start, end, Decoration.replace({ widget }))
+						return
+					}
+
+					// Look up emoji in cached map, honoring user aliases and a
+					// skin tone written in the shortcode
+					const resolved = lookupShortcode(
+						this.emojiMap,
+						fullMatch.slice(1, -1),
+						pluginInstance.settings.aliases
+					)
+
+					if (resolved?.emoji.skins) {
+						// Resolve emoji character with the written skin tone, or
+						// the tone remembered for this emoji
+						const emojiChar = getShortcodeCharacter(
+							resolved,
 							pluginInstance.settings.skin
 						)
 
 						if (emojiChar) {
-							const widget = new EmojiWidget(emojiChar, fullMatch)
+							const widget = new EmojiWidget(
+								emojiChar,
+								fullMatch,
+								getEmojiTooltip(resolved.emoji, fullMatch),
+								pluginInstance
+							)
 							builder.add(
 								start,
 								end,
@@ -222,32 +348,6 @@ export class EmojiCodeMirrorExtension {
 					}
 				}
 
-				/**
-				 * Synchronous version of getEmojiWithSkin for cached emoji data
-				 */
-				private getEmojiWithSkinSync(
-					emojiItem: Emoji,
-					skinTone: number
-				): string | null {
-					if (!emojiItem) return null
-
-					// If default skin tone is selected OR emoji doesn't support skin tones
-					if (
-						skinTone === 0 ||
-						!emojiItem.skins ||
-						emojiItem.skins.length <= 1
-					) {
-						return emojiItem.skins?.[0]?.native ?? emojiItem.name
-					}
-
-					// Get skin tone variant if it exists
-					return (
-						emojiItem.skins?.[skinTone]?.native ??
-						emojiItem.skins?.[0]?.native ??
-						emojiItem.name
-					)
-				}
-
 				/**
 				 * Initialize emoji map asynchronously
 				 */
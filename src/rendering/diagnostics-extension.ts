@@ -0,0 +1,302 @@
+import { Editor, EditorPosition, Menu } from 'obsidian'
+
+import { syntaxTree } from '@codemirror/language'
+import { RangeSetBuilder } from '@codemirror/state'
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	ViewPlugin,
+	ViewUpdate,
+} from '@codemirror/view'
+import type { Emoji } from '@emoji-mart/data'
+
+import {
+	SHORTCODE_REGEX,
+	getEmojiMap,
+	lookupEmoji,
+	lookupShortcode,
+	shouldSkipLine,
+} from './emoji-renderer'
+import { getExcludedRanges, isExcluded, isParsed } from './syntax-ranges'
+
+import type QuickEmojiPlugin from '../main'
+import {
+	isTimeLike,
+	suggestShortcodes,
+} from '../services/shortcode-diagnostics'
+import { EmojiPickerModal } from '../ui/emoji-picker-modal'
+import { formatEmoji, getEmojiWithSkin } from '../utils'
+
+// Obsidian's Editor wraps a CodeMirror view that its public type doesn't
+// declare (checked against Obsidian 1.7)
+type CodeMirrorEditor = Editor & { cm?: unknown }
+
+const unknownShortcodeMark = Decoration.mark({
+	class: 'qe-unknown-shortcode',
+	attributes: {
+		'aria-label': 'Unknown emoji shortcode. Right-click for suggestions.',
+	},
+})
+
+/**
+ * Shortcode Diagnostics Extension
+ * Underlines shortcodes that don't resolve to an emoji and offers the
+ * closest matching emoji ids as quick fixes in the editor context menu
+ */
+export class ShortcodeDiagnosticsExtension {
+	private emojiMap: Record<string, Emoji> | null = null
+
+	constructor(private plugin: QuickEmojiPlugin) {}
+
+	/**
+	 * Load the emoji map used to resolve shortcodes synchronously
+	 */
+	async loadEmojiMap(): Promise<Record<string, Emoji>> {
+		this.emojiMap ??= await getEmojiMap()
+		return this.emojiMap
+	}
+
+	/**
+	 * Check if a shortcode resolves to a custom, built-in, alias or dialect
+	 * emoji. Everything counts as resolved until the emoji data is loaded.
+	 * @param shortcode - The shortcode without its outer colons, possibly
+	 * with a skin tone suffix
+	 */
+	isResolved(shortcode: string): boolean {
+		if (!this.emojiMap) return true
+		// Custom emojis have no skin tones, so a tone suffix is ignored
+		const customId = shortcode.replace(/::skin-tone-[2-6]$/, '')
+		return (
+			!!this.plugin.customEmojis.get(customId) ||
+			!!lookupShortcode(
+				this.emojiMap,
+				shortcode,
+				this.plugin.settings.aliases
+			)
+		)
+	}
+
+	/**
+	 * Find the unresolved shortcode at a position of a line
+	 * @param lineText - The line text
+	 * @param ch - Cursor position within the line
+	 * @returns The shortcode and its range in the line, or null
+	 */
+	findUnresolvedAt(
+		lineText: string,
+		ch: number
+	): { shortcode: string; from: number; to: number } | null {
+		for (const match of lineText.matchAll(
+			new RegExp(SHORTCODE_REGEX, 'g')
+		)) {
+			const from = match.index!
+			const to = from + match[0].length
+			if (ch < from || ch > to) continue
+			if (
+				isTimeLike(lineText, from, to) ||
+				this.isResolved(match[0].slice(1, -1))
+			) {
+				return null
+			}
+			return { shortcode: match[1], from, to }
+		}
+		return null
+	}
+
+	/**
+	 * Add quick fixes for the unresolved shortcode under the cursor to the
+	 * editor context menu
+	 * @param menu - The editor context menu
+	 * @param editor - The editor that was right-clicked
+	 */
+	addQuickFixes(menu: Menu, editor: Editor): void {
+		if (!this.plugin.settings.shortcodeDiagnostics || !this.emojiMap) {
+			return
+		}
+
+		const cursor = editor.getCursor()
+		const unresolved = this.findUnresolvedAt(
+			editor.getLine(cursor.line),
+			cursor.ch
+		)
+		if (!unresolved) return
+
+		const from = { line: cursor.line, ch: unresolved.from }
+		const to = { line: cursor.line, ch: unresolved.to }
+		// Leave code, math, link URLs and frontmatter alone
+		if (this.isExcludedAt(editor, from, to)) return
+		const candidates = [
+			...Object.keys(this.emojiMap),
+			...Object.keys(this.plugin.settings.aliases),
+			...this.plugin.customEmojis.getAll().map((emoji) => emoji.id),
+		]
+
+		for (const id of suggestShortcodes(unresolved.shortcode, candidates)) {
+			const emoji =
+				this.plugin.customEmojis.get(id) ??
+				lookupEmoji(this.emojiMap, id, this.plugin.settings.aliases)
+			const preview =
+				emoji && emoji.skins?.[0]?.native
+					? ` ${getEmojiWithSkin(emoji, this.plugin.settings.skin)}`
+					: ''
+
+			menu.addItem((item) =>
+				item
+					.setTitle(`Replace with :${id}:${preview}`)
+					.setIcon('smile')
+					.onClick(() => editor.replaceRange(`:${id}:`, from, to))
+			)
+		}
+
+		menu.addItem((item) =>
+			item
+				.setTitle('Pick replacement emoji…')
+				.setIcon('smile-plus')
+				.onClick(() =>
+					new EmojiPickerModal(
+						this.plugin.app,
+						this.plugin,
+						(emoji) =>
+							editor.replaceRange(
+								formatEmoji(
+									emoji,
+									'shortcode',
+									this.plugin.settings.skin,
+									this.plugin.settings.insertionDialect
+								),
+								from,
+								to
+							)
+					).open()
+				)
+		)
+	}
+
+	/**
+	 * Check if a range of the editor is code, math, a link URL or
+	 * frontmatter, the same way the underlines are drawn
+	 */
+	private isExcludedAt(
+		editor: Editor,
+		from: EditorPosition,
+		to: EditorPosition
+	): boolean {
+		const { cm } = editor as CodeMirrorEditor
+		const start = editor.posToOffset(from)
+		const end = editor.posToOffset(to)
+
+		if (cm instanceof EditorView && isParsed(cm.state, end)) {
+			return isExcluded(
+				getExcludedRanges(cm.state, start, end),
+				start,
+				end
+			)
+		}
+		return shouldSkipLine(editor.getLine(from.line))
+	}
+
+	/**
+	 * Create the CodeMirror ViewPlugin extension
+	 * @returns The CodeMirror ViewPlugin
+	 */
+	createExtension() {
+		// Create a factory that captures the extension and plugin instances
+		const createDiagnosticsDecorator = (
+			diagnostics: ShortcodeDiagnosticsExtension,
+			pluginInstance: QuickEmojiPlugin
+		) => {
+			return class DiagnosticsDecorator {
+				decorations: DecorationSet
+				private renderVersion = pluginInstance.renderVersion
+				private destroyed = false
+
+				constructor(view: EditorView) {
+					this.decorations = this.buildDecorations(view)
+
+					// Underline once the emoji data is ready
+					diagnostics.loadEmojiMap().then(() => {
+						if (this.destroyed) return
+						this.decorations = this.buildDecorations(view)
+						view.dispatch()
+					})
+				}
+
+				update(update: ViewUpdate) {
+					if (
+						update.docChanged ||
+						update.viewportChanged ||
+						syntaxTree(update.startState) !==
+							syntaxTree(update.state) ||
+						this.renderVersion !== pluginInstance.renderVersion
+					) {
+						this.renderVersion = pluginInstance.renderVersion
+						this.decorations = this.buildDecorations(update.view)
+					}
+				}
+
+				destroy() {
+					this.destroyed = true
+				}
+
+				buildDecorations(view: EditorView): DecorationSet {
+					const builder = new RangeSetBuilder<Decoration>()
+					if (!pluginInstance.settings.shortcodeDiagnostics) {
+						return builder.finish()
+					}
+
+					for (const { from, to } of view.visibleRanges) {
+						this.processRange(view, from, to, builder)
+					}
+
+					return builder.finish()
+				}
+
+				/**
+				 * Underline unresolved shortcodes in a range of text
+				 */
+				private processRange(
+					view: EditorView,
+					from: number,
+					to: number,
+					builder: RangeSetBuilder<Decoration>
+				): void {
+					const text = view.state.doc.sliceString(from, to)
+					const excludedRanges = getExcludedRanges(
+						view.state,
+						from,
+						to
+					)
+
+					for (const match of text.matchAll(
+						new RegExp(SHORTCODE_REGEX, 'g')
+					)) {
+						const start = from + match.index!
+						const end = start + match[0].length
+
+						// Ignore code, math, link URLs, frontmatter and times
+						if (isParsed(view.state, end)) {
+							if (isExcluded(excludedRanges, start, end)) continue
+						} else if (
+							shouldSkipLine(view.state.doc.lineAt(start).text)
+						) {
+							continue
+						}
+						if (isTimeLike(text, match.index!, end - from)) continue
+
+						if (!diagnostics.isResolved(match[0].slice(1, -1))) {
+							builder.add(start, end, unknownShortcodeMark)
+						}
+					}
+				}
+			}
+		}
+
+		return ViewPlugin.fromClass(
+			createDiagnosticsDecorator(this, this.plugin),
+			{
+				decorations: (v) => v.decorations,
+			}
+		)
+	}
+}
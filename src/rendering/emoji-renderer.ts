@@ -1,13 +1,28 @@
 import { type Emoji, type EmojiMartData } from '@emoji-mart/data'
 
+import { lookupDialectShortcode } from '../services/shortcode-dialects'
 import type { SkinSetting } from '../ui/settings-tab'
-import { getEmojiWithSkin } from '../utils'
+import { getEmojiSkinVariant, getEmojiWithSkin } from '../utils'
 
 /**
  * Regular expression for matching emoji shortcodes
- * Matches patterns like :smile:, :thumbs_up:, etc.
+ * Matches patterns like :smile:, :thumbs_up:, etc., including an optional
+ * skin tone suffix like :wave::skin-tone-4: (captured as the second group)
  */
-export const SHORTCODE_REGEX = /:([a-zA-Z0-9_+-]+):/
+export const SHORTCODE_REGEX = /:([a-zA-Z0-9_+-]+):(?::skin-tone-([2-6]):)?/
+
+/**
+ * Matches Discord-style toned shortcodes like thumbsup_tone2
+ */
+const TONE_ENDING_REGEX = /^(.+)_tone([1-5])$/
+
+/**
+ * An emoji resolved from a shortcode, with the skin tone the shortcode asks for
+ */
+export interface ShortcodeEmoji {
+	emoji: Emoji
+	skinTone: SkinSetting | null // null when the shortcode has no tone
+}
 
 /**
  * Shared emoji map for efficient lookup
@@ -55,30 +70,97 @@ export function clearEmojiMapCache(): void {
 	emojiMapCache = null
 }
 
+/**
+ * Look up an emoji by ID, falling back to user-defined shortcode aliases
+ * and then to the enabled shortcode dialects (GitHub, Slack, Discord)
+ * @param emojiMap - The emoji map from getEmojiMap
+ * @param emojiId - The emoji ID, alias or dialect shortcode (e.g., 'smile', 'lgtm', 'thumbsup')
+ * @param aliases - Map of alias shortcodes to emoji IDs
+ * @returns The emoji data or null if nothing matches
+ */
+export function lookupEmoji(
+	emojiMap: Record<string, Emoji>,
+	emojiId: string,
+	aliases: Record<string, string> = {}
+): Emoji | null {
+	const emojiData = emojiMap[emojiId] || emojiMap[emojiId.toLowerCase()]
+	if (emojiData) return emojiData
+
+	const alias = [emojiId, emojiId.toLowerCase()].find((key) =>
+		Object.prototype.hasOwnProperty.call(aliases, key)
+	)
+	if (alias) return emojiMap[aliases[alias]] ?? null
+
+	return lookupDialectShortcode(emojiId)
+}
+
+/**
+ * Look up a shortcode that may carry a skin tone, either as a suffix
+ * (wave::skin-tone-4) or as a Discord-style ending (thumbsup_tone2)
+ * @param emojiMap - The emoji map from getEmojiMap
+ * @param shortcode - The shortcode without its outer colons
+ * @param aliases - Map of alias shortcodes to emoji IDs
+ * @returns The emoji and requested skin tone, or null if nothing matches
+ */
+export function lookupShortcode(
+	emojiMap: Record<string, Emoji>,
+	shortcode: string,
+	aliases: Record<string, string> = {}
+): ShortcodeEmoji | null {
+	const suffix = shortcode.match(/^(.+)::skin-tone-([2-6])$/)
+	if (suffix) {
+		const emoji = lookupEmoji(emojiMap, suffix[1], aliases)
+		return emoji
+			? { emoji, skinTone: (Number(suffix[2]) - 1) as SkinSetting }
+			: null
+	}
+
+	const emoji = lookupEmoji(emojiMap, shortcode, aliases)
+	if (emoji) return { emoji, skinTone: null }
+
+	// Toned shortcodes of dialects that aren't enabled
+	const ending = shortcode.match(TONE_ENDING_REGEX)
+	const base = ending && lookupEmoji(emojiMap, ending[1], aliases)
+	return base
+		? { emoji: base, skinTone: Number(ending[2]) as SkinSetting }
+		: null
+}
+
+/**
+ * Get the character for a resolved shortcode: the tone written in the
+ * shortcode wins, otherwise the remembered or default skin tone applies
+ * @param resolved - The result of lookupShortcode
+ * @param skinTone - The default skin tone (0-5)
+ */
+export function getShortcodeCharacter(
+	resolved: ShortcodeEmoji,
+	skinTone: SkinSetting
+): string {
+	return resolved.skinTone === null
+		? getEmojiWithSkin(resolved.emoji, skinTone)
+		: getEmojiSkinVariant(resolved.emoji, resolved.skinTone)
+}
+
 /**
  * Resolve an emoji ID to its character representation with skin tone applied
- * @param emojiId - The emoji ID (e.g., 'smile', 'thumbs_up')
+ * @param emojiId - The emoji ID (e.g., 'smile', 'thumbs_up') or a user alias,
+ * optionally with a skin tone suffix (e.g., 'wave::skin-tone-4')
  * @param skinTone - The skin tone setting (0-5)
+ * @param aliases - Optional map of alias shortcodes to emoji IDs
  * @returns The emoji character or null if not found
  */
 export async function resolveEmojiCharacter(
 	emojiId: string,
-	skinTone: SkinSetting
+	skinTone: SkinSetting,
+	aliases: Record<string, string> = {}
 ): Promise<string | null> {
 	try {
 		const emojiMap = await getEmojiMap()
-		const emojiData = emojiMap[emojiId] || emojiMap[emojiId.toLowerCase()]
-
-		if (emojiData && emojiData.skins && emojiData.skins[0]) {
-			// Convert to Emoji type for getEmojiWithSkin
-			const emojiObj = {
-				id: emojiData.id,
-				name: emojiData.name,
-				skins: emojiData.skins,
-			} as Emoji
-
-			// Apply skin tone
-			return getEmojiWithSkin(emojiObj, skinTone)
+		const resolved = lookupShortcode(emojiMap, emojiId, aliases)
+
+		if (resolved?.emoji.skins?.[0]) {
+			// Apply the written or default skin tone
+			return getShortcodeCharacter(resolved, skinTone)
 		}
 
 		return null
@@ -92,7 +174,9 @@ export async function resolveEmojiCharacter(
 
 /**
  * Enhanced boundary detection utility
- * Checks if a text node should be excluded from emoji processing
+ * Checks if a text node should be excluded from emoji processing. Reading
+ * mode has already parsed the Markdown, so the rendered elements tell
+ * exactly where code, math, link URLs and frontmatter are.
  * @param node - The text node to check
  * @returns true if the node should be skipped
  */
@@ -100,35 +184,21 @@ export function shouldSkipNode(node: Node): boolean {
 	const parent = node.parentElement
 	if (!parent) return true
 
-	// Check if node is within code, pre, or math boundaries
+	// Check if node is within code, pre, math or frontmatter boundaries
 	if (
 		parent.closest(
-			'code, pre, .cm-inline-code, .math, .cm-formatting, .HyperMD-codeblock, .cm-math, .katex'
+			'code, pre, .cm-inline-code, .math, .cm-formatting, .HyperMD-codeblock, .cm-math, .katex, mjx-container, .frontmatter, .metadata-container'
 		)
 	) {
 		return true
 	}
 
-	// Additional check for inline code patterns in the text content
-	const nodeText = node.nodeValue || ''
-	const fullParentText = parent.textContent || ''
-	const nodeIndex = fullParentText.indexOf(nodeText)
-
-	if (nodeIndex !== -1) {
-		const beforeText = fullParentText.substring(0, nodeIndex)
-		const afterText = fullParentText.substring(nodeIndex + nodeText.length)
-
-		// Check for inline code patterns: `...text...`
-		const openBackticks = (beforeText.match(/`/g) || []).length
-		const closeBackticks = (afterText.match(/`/g) || []).length
-		if (openBackticks % 2 === 1 && closeBackticks > 0) {
-			return true
-		}
-
-		// Check for inline math patterns: $...text...$
-		const openMath = (beforeText.match(/\$/g) || []).length
-		const closeMath = (afterText.match(/\$/g) || []).length
-		if (openMath % 2 === 1 && closeMath > 0) {
+	// Bare links show their URL as the link text
+	const link = parent.closest('a')
+	if (link) {
+		const href = link.getAttribute('href') || ''
+		const text = link.textContent || ''
+		if (text === href || safeDecodeURI(href) === text) {
 			return true
 		}
 	}
@@ -136,6 +206,17 @@ export function shouldSkipNode(node: Node): boolean {
 	return false
 }
 
+/**
+ * Decode a URL for comparison, leaving it unchanged if it is malformed
+ */
+function safeDecodeURI(url: string): string {
+	try {
+		return decodeURI(url)
+	} catch {
+		return url
+	}
+}
+
 /**
  * Enhanced boundary detection for CodeMirror line-based checking
  * @param lineText - The text of the line to check
@@ -158,3 +239,102 @@ export function shouldSkipLine(lineText: string): boolean {
 		)
 	)
 }
+
+/**
+ * Inline spans where emojis stay literal: code, math, bare URLs and link
+ * targets
+ */
+const INLINE_EXCLUSION_REGEX =
+	/(`+)[\s\S]*?\1|\$(?!\$)[^$\n]+\$|https?:\/\/\S+|\]\([^)]*\)/g
+
+/**
+ * A document line where emojis are processed
+ */
+export interface ProcessableLine {
+	line: number // Zero-based line number
+	offset: number // Offset of the line's start in the document
+	text: string // The line, with inline code, math and URLs blanked out
+}
+
+/**
+ * Document-level boundary detection for whole-note processing. Every scan
+ * of a note's text (conversion, migration, unresolved shortcodes, the emoji
+ * index and emoticons) uses this, so they agree on what is left alone.
+ * Lines in frontmatter, code blocks and $$ math blocks are left out; in the
+ * other lines inline code, math and URLs are replaced with spaces, keeping
+ * offsets intact.
+ * @param text - The full document text
+ * @returns The lines to process, in document order
+ */
+export function getProcessableLines(text: string): ProcessableLine[] {
+	const lines = text.split('\n')
+	const blockLines = getBlockLines(lines)
+	const processable: ProcessableLine[] = []
+
+	let offset = 0
+	lines.forEach((lineText, line) => {
+		if (!blockLines[line]) {
+			processable.push({
+				line,
+				offset,
+				text: lineText.replace(INLINE_EXCLUSION_REGEX, (span) =>
+					' '.repeat(span.length)
+				),
+			})
+		}
+		offset += lineText.length + 1
+	})
+
+	return processable
+}
+
+/**
+ * Mark the lines that belong to frontmatter, fenced code, indented code or
+ * $$ math blocks
+ * @param lines - The lines of the document
+ * @returns Array with true for each line inside a block
+ */
+function getBlockLines(lines: string[]): boolean[] {
+	let inFrontmatter = lines[0]?.trim() === '---'
+	let fence: string | null = null
+	let inMathBlock = false
+	let previousBlank = true
+
+	return lines.map((lineText, index) => {
+		const trimmed = lineText.trim()
+		const blank = trimmed === ''
+
+		try {
+			if (inFrontmatter) {
+				if (index > 0 && trimmed === '---') inFrontmatter = false
+				return true
+			}
+
+			// Fences close only with the same marker they opened with
+			const marker = trimmed.match(/^(`{3,}|~{3,})/)?.[1]
+			if (fence) {
+				if (marker && marker[0] === fence[0]) fence = null
+				return true
+			}
+			if (marker) {
+				fence = marker
+				return true
+			}
+
+			if ((lineText.match(/\$\$/g) || []).length % 2 === 1) {
+				inMathBlock = !inMathBlock
+				return true
+			}
+			if (inMathBlock) return true
+
+			// Indented code follows a blank line; nested list items don't count
+			return (
+				previousBlank &&
+				/^(\t| {4})/.test(lineText) &&
+				!/^([-*+]|\d+[.)])\s/.test(trimmed)
+			)
+		} finally {
+			previousBlank = blank
+		}
+	})
+}
@@ -1,10 +1,13 @@
 import {
 	SHORTCODE_REGEX,
+	getEmojiMap,
+	lookupShortcode,
 	resolveEmojiCharacter,
 	shouldSkipNode,
 } from './emoji-renderer'
 
 import type QuickEmojiPlugin from '../main'
+import { createCustomEmojiImage, getEmojiTooltip } from '../utils'
 
 /**
  * Emoji Markdown Post-Processor
@@ -74,7 +77,8 @@ export class EmojiMarkdownProcessor {
 		const matches = original.matchAll(new RegExp(SHORTCODE_REGEX, 'g'))
 
 		for (const match of matches) {
-			const emojiId = String(match[1])
+			// Keep a skin tone suffix such as ::skin-tone-4 with the ID
+			const emojiId = match[0].slice(1, -1)
 			const offset = match.index!
 
 			// Create promise for emoji resolution
@@ -144,15 +148,43 @@ export class EmojiMarkdownProcessor {
 		emojiId: string
 	): Promise<HTMLElement | null> {
 		try {
+			// Custom image emojis take precedence over built-in ids
+			const customEmoji = this.plugin.customEmojis.get(emojiId)
+			if (customEmoji) {
+				const img = createCustomEmojiImage(
+					customEmoji,
+					'qe-emoji qe-custom-emoji'
+				)
+				img.setAttribute(
+					'aria-label',
+					getEmojiTooltip(customEmoji, `:${emojiId}:`)
+				)
+				return img
+			}
+
 			const emojiChar = await resolveEmojiCharacter(
 				emojiId,
-				this.plugin.settings.skin
+				this.plugin.settings.skin,
+				this.plugin.settings.aliases
 			)
 
 			if (emojiChar) {
 				const span = document.createElement('span')
 				span.className = 'qe-emoji'
 				span.textContent = emojiChar
+
+				// Show the name, shortcode and keywords on hover
+				const resolved = lookupShortcode(
+					await getEmojiMap(),
+					emojiId,
+					this.plugin.settings.aliases
+				)
+				if (resolved) {
+					span.setAttribute(
+						'aria-label',
+						getEmojiTooltip(resolved.emoji, `:${emojiId}:`)
+					)
+				}
 				return span
 			}
 
@@ -0,0 +1,295 @@
+import {
+	MarkdownView,
+	Notice,
+	TAbstractFile,
+	TFile,
+	WorkspaceLeaf,
+} from 'obsidian'
+
+import { type Emoji } from '@emoji-mart/data'
+
+import { resolveEmojiCharacter } from './emoji-renderer'
+
+import type QuickEmojiPlugin from '../main'
+import { getEmojiLookup } from '../services/emoji-service'
+import { EmojiPickerModal } from '../ui/emoji-picker-modal'
+import { type CustomEmoji, createCustomEmojiImage, formatEmoji } from '../utils'
+
+/**
+ * A resolved note icon: an emoji character or a custom image emoji
+ */
+type NoteIcon = string | CustomEmoji
+
+// Internals of the file explorer, tab headers and inline titles, which
+// Obsidian doesn't expose in the API. Written against Obsidian 1.7; every
+// field is checked before use, so a changed shape only hides the icons.
+type FileExplorerView = { fileItems?: unknown }
+type FileExplorerItem = { innerEl?: unknown }
+type TabHeaderLeaf = { tabHeaderInnerTitleEl?: unknown }
+type InlineTitleView = { inlineTitleEl?: unknown }
+
+const ICON_CLASS = 'qe-note-icon'
+
+/**
+ * Note Icon Renderer
+ * Reads an emoji from a frontmatter property and shows it next to the
+ * note's name in the file explorer, its tab header and its inline title
+ */
+export class NoteIconRenderer {
+	private icons = new Map<string, NoteIcon | null>() // Resolved icon per note path
+	private refreshTimer: number | null = null
+
+	constructor(private plugin: QuickEmojiPlugin) {}
+
+	/**
+	 * Register listeners that keep the icons in sync with frontmatter and
+	 * the workspace. Call once the workspace layout is ready.
+	 */
+	registerEvents(): void {
+		const { metadataCache, vault, workspace } = this.plugin.app
+
+		this.plugin.registerEvent(
+			metadataCache.on('changed', (file) => {
+				this.icons.delete(file.path)
+				this.scheduleRefresh()
+			})
+		)
+		this.plugin.registerEvent(
+			vault.on('rename', (file, oldPath) => {
+				this.icons.delete(oldPath)
+				this.onFileChanged(file)
+			})
+		)
+		this.plugin.registerEvent(
+			vault.on('delete', (file) => this.onFileChanged(file))
+		)
+		this.plugin.registerEvent(
+			workspace.on('layout-change', () => this.scheduleRefresh())
+		)
+		this.plugin.registerEvent(
+			workspace.on('file-open', () => this.scheduleRefresh())
+		)
+	}
+
+	/**
+	 * Name of the frontmatter property holding the icon, or null if note
+	 * icons are disabled
+	 */
+	getProperty(): string | null {
+		return this.plugin.settings.noteIconProperty.trim() || null
+	}
+
+	/**
+	 * Forget the resolved icons and redraw them, e.g. after the property
+	 * name, skin tone or custom emojis changed
+	 */
+	reload(): void {
+		this.icons.clear()
+		this.scheduleRefresh()
+	}
+
+	/**
+	 * Redraw the icons shortly, batching bursts of workspace events
+	 */
+	scheduleRefresh(): void {
+		if (this.refreshTimer) window.clearTimeout(this.refreshTimer)
+		this.refreshTimer = window.setTimeout(() => {
+			this.refreshTimer = null
+			this.refresh()
+		}, 50)
+	}
+
+	/**
+	 * Draw the icon of every note shown in the file explorer, tab headers
+	 * and inline titles
+	 */
+	async refresh(): Promise<void> {
+		const { workspace } = this.plugin.app
+
+		for (const leaf of workspace.getLeavesOfType('file-explorer')) {
+			const { fileItems } = leaf.view as unknown as FileExplorerView
+			if (typeof fileItems !== 'object' || fileItems === null) continue
+
+			for (const [path, item] of Object.entries(fileItems)) {
+				const titleEl = (item as FileExplorerItem | null)?.innerEl
+				if (!(titleEl instanceof HTMLElement)) continue
+				const file = this.plugin.app.vault.getAbstractFileByPath(path)
+				if (!(file instanceof TFile) || file.extension !== 'md') {
+					continue
+				}
+				this.renderIcon(titleEl, await this.getIcon(file))
+			}
+		}
+
+		const leaves: WorkspaceLeaf[] = []
+		workspace.iterateAllLeaves((leaf) => {
+			leaves.push(leaf)
+		})
+		for (const leaf of leaves) {
+			await this.refreshLeaf(leaf)
+		}
+	}
+
+	/**
+	 * Draw the icon in a leaf's tab header and inline title
+	 */
+	private async refreshLeaf(leaf: WorkspaceLeaf): Promise<void> {
+		const titleEl = (leaf as unknown as TabHeaderLeaf).tabHeaderInnerTitleEl
+		const file = leaf.view instanceof MarkdownView ? leaf.view.file : null
+		const icon = file ? await this.getIcon(file) : null
+
+		if (titleEl instanceof HTMLElement) this.renderIcon(titleEl, icon)
+
+		const inlineTitleEl = (leaf.view as unknown as InlineTitleView)
+			.inlineTitleEl
+		if (inlineTitleEl instanceof HTMLElement) {
+			this.renderIcon(inlineTitleEl, icon)
+		}
+	}
+
+	/**
+	 * Resolve the icon of a note from its frontmatter
+	 * @param file - The note
+	 * @returns The icon, or null if the note has none or it doesn't resolve
+	 */
+	async getIcon(file: TFile): Promise<NoteIcon | null> {
+		const property = this.getProperty()
+		if (!property) return null
+
+		if (!this.icons.has(file.path)) {
+			const frontmatter =
+				this.plugin.app.metadataCache.getFileCache(file)?.frontmatter
+			this.icons.set(
+				file.path,
+				await this.resolveIcon(frontmatter?.[property])
+			)
+		}
+		return this.icons.get(file.path) ?? null
+	}
+
+	/**
+	 * Resolve a frontmatter value: a custom emoji or a shortcode, with or
+	 * without colons, or an emoji character
+	 * @param value - The property value, of unknown type
+	 */
+	private async resolveIcon(value: unknown): Promise<NoteIcon | null> {
+		// A list property uses its first entry
+		if (Array.isArray(value)) value = value[0]
+		if (typeof value !== 'string') return null
+
+		const text = value.trim()
+		if (!text) return null
+
+		const shortcode = text.match(/^:(.+):$/)?.[1] ?? text
+		const custom = this.plugin.customEmojis.get(shortcode)
+		if (custom) return custom
+
+		const { skin, aliases } = this.plugin.settings
+		const character = await resolveEmojiCharacter(shortcode, skin, aliases)
+		if (character) return character
+
+		// Written as the emoji itself
+		const lookup = await getEmojiLookup()
+		return lookup?.byNative(text) ? text : null
+	}
+
+	/**
+	 * Show an icon before a title element, or remove it when there is none.
+	 * The icon is a sibling so Obsidian can keep updating the title text.
+	 */
+	private renderIcon(titleEl: HTMLElement, icon: NoteIcon | null): void {
+		const previous = titleEl.previousElementSibling
+		let iconEl =
+			previous instanceof HTMLElement &&
+			previous.classList.contains(ICON_CLASS)
+				? previous
+				: null
+
+		if (!icon) {
+			iconEl?.remove()
+			return
+		}
+
+		const key = typeof icon === 'string' ? icon : icon.src
+		if (iconEl?.dataset.icon === key) return
+
+		if (!iconEl) {
+			iconEl = createSpan({ cls: ICON_CLASS })
+			titleEl.parentElement?.insertBefore(iconEl, titleEl)
+		}
+		iconEl.dataset.icon = key
+		if (typeof icon === 'string') {
+			iconEl.setText(icon)
+		} else {
+			iconEl.empty()
+			iconEl.appendChild(createCustomEmojiImage(icon, 'qe-custom-emoji'))
+		}
+	}
+
+	/**
+	 * Forget a renamed or deleted note and redraw
+	 */
+	private onFileChanged(file: TAbstractFile): void {
+		this.icons.delete(file.path)
+		this.scheduleRefresh()
+	}
+
+	/**
+	 * Open the emoji picker and write the chosen emoji to a note's icon
+	 * property, in the configured insertion format
+	 * @param file - The note to set the icon of
+	 */
+	pickIcon(file: TFile): void {
+		new EmojiPickerModal(this.plugin.app, this.plugin, (emoji) =>
+			this.setIcon(file, emoji)
+		).open()
+	}
+
+	/**
+	 * Write an emoji to a note's icon property, or remove the property
+	 * @param file - The note
+	 * @param emoji - The new icon, or null to remove it
+	 */
+	async setIcon(file: TFile, emoji: Emoji | null): Promise<void> {
+		const property = this.getProperty()
+		if (!property) return
+
+		const { insertionFormat, skin, insertionDialect } = this.plugin.settings
+		try {
+			await this.plugin.app.fileManager.processFrontMatter(
+				file,
+				(frontmatter: Record<string, unknown>) => {
+					if (emoji) {
+						frontmatter[property] = formatEmoji(
+							emoji,
+							insertionFormat,
+							skin,
+							insertionDialect
+						)
+					} else {
+						delete frontmatter[property]
+					}
+				}
+			)
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Failed to update note icon:', file.path, error)
+			}
+			new Notice(
+				'Quick Emoji: Could not update the note icon. Check that the frontmatter is valid.'
+			)
+		}
+	}
+
+	/**
+	 * Remove every drawn icon and stop pending redraws
+	 */
+	clear(): void {
+		if (this.refreshTimer) {
+			window.clearTimeout(this.refreshTimer)
+			this.refreshTimer = null
+		}
+		this.icons.clear()
+		document.querySelectorAll(`.${ICON_CLASS}`).forEach((el) => el.remove())
+	}
+}
@@ -0,0 +1,101 @@
+import { syntaxTree } from '@codemirror/language'
+import type { EditorState } from '@codemirror/state'
+
+/**
+ * Syntax node name parts that mark text where shortcodes stay literal.
+ * Obsidian's Markdown parser joins token classes with underscores
+ * (e.g. 'formatting_formatting-code_inline-code'); the CamelCase names
+ * cover the standard @lezer/markdown parser.
+ */
+const EXCLUDED_NODE_PARTS = new Set([
+	// Code
+	'inline-code',
+	'hmd-codeblock',
+	'hmd-indented-code',
+	'InlineCode',
+	'FencedCode',
+	'CodeBlock',
+	// Math
+	'math',
+	// Link URLs
+	'url',
+	'hmd-barelink',
+	'URL',
+	// Frontmatter
+	'hmd-frontmatter',
+	'Frontmatter',
+])
+
+/**
+ * A document range where shortcodes must not be rendered
+ */
+export interface ExcludedRange {
+	from: number
+	to: number
+}
+
+/**
+ * Check if a syntax node marks code, math, a link URL or frontmatter
+ * @param name - The syntax node name
+ */
+function isExcludedNode(name: string): boolean {
+	return name.split('_').some((part) => EXCLUDED_NODE_PARTS.has(part))
+}
+
+/**
+ * Collect the code, math, link URL and frontmatter ranges in part of the
+ * document from the Markdown syntax tree
+ * @param state - The editor state
+ * @param from - Start of the range to scan
+ * @param to - End of the range to scan
+ * @returns Excluded ranges in document order, merged where they touch
+ */
+export function getExcludedRanges(
+	state: EditorState,
+	from: number,
+	to: number
+): ExcludedRange[] {
+	const ranges: ExcludedRange[] = []
+
+	syntaxTree(state).iterate({
+		from,
+		to,
+		enter: (node) => {
+			if (!isExcludedNode(node.name)) return
+			const last = ranges[ranges.length - 1]
+			if (last && node.from <= last.to) {
+				last.to = Math.max(last.to, node.to)
+			} else {
+				ranges.push({ from: node.from, to: node.to })
+			}
+			// Children of an excluded node are excluded too
+			return false
+		},
+	})
+
+	return ranges
+}
+
+/**
+ * Check if a document range overlaps any excluded range
+ * @param ranges - Excluded ranges from getExcludedRanges
+ * @param from - Start of the range to check
+ * @param to - End of the range to check
+ */
+export function isExcluded(
+	ranges: ExcludedRange[],
+	from: number,
+	to: number
+): boolean {
+	return ranges.some((range) => from < range.to && to > range.from)
+}
+
+/**
+ * Check if the syntax tree covers a position yet. The parser works in the
+ * background, so text past this point has no syntax nodes to go by.
+ * @param state - The editor state
+ * @param pos - The document position
+ */
+export function isParsed(state: EditorState, pos: number): boolean {
+	return syntaxTree(state).length >= pos
+}
@@ -0,0 +1,190 @@
+import { normalizePath, TAbstractFile, TFile } from 'obsidian'
+
+import type QuickEmojiPlugin from '../main'
+import { type CustomEmoji, sanitizeShortcode } from '../utils'
+
+/**
+ * File extensions that are picked up as custom emoji images
+ */
+const CUSTOM_EMOJI_EXTENSIONS = ['png', 'svg', 'gif']
+
+/**
+ * Custom Emoji Service
+ * Scans a configurable vault folder for image files and registers each
+ * file name as an emoji shortcode
+ */
+export class CustomEmojiService {
+	private emojis = new Map<string, CustomEmoji>()
+	private registered = new Map<string, CustomEmoji>() // Added by other plugins through the API
+
+	constructor(private plugin: QuickEmojiPlugin) {}
+
+	/**
+	 * Register vault listeners that rescan when files in the folder change.
+	 * Call once the workspace layout is ready so the initial vault load
+	 * doesn't trigger a rescan per file.
+	 */
+	registerEvents(): void {
+		const { vault } = this.plugin.app
+
+		this.plugin.registerEvent(
+			vault.on('create', (file) => this.onFileChanged(file))
+		)
+		this.plugin.registerEvent(
+			vault.on('delete', (file) => this.onFileChanged(file))
+		)
+		this.plugin.registerEvent(
+			vault.on('rename', (file, oldPath) =>
+				this.onFileChanged(file, oldPath)
+			)
+		)
+	}
+
+	/**
+	 * Normalized folder path from settings, or null if custom emojis are disabled
+	 */
+	getFolder(): string | null {
+		const folder = this.plugin.settings.customEmojiFolder.trim()
+		if (!folder) return null
+		return normalizePath(folder)
+	}
+
+	/**
+	 * Rebuild the custom emoji registry from the configured folder
+	 */
+	scan(): void {
+		this.emojis.clear()
+
+		const folder = this.getFolder()
+		if (folder) {
+			for (const file of this.plugin.app.vault.getFiles()) {
+				if (!this.isCustomEmojiFile(file, folder)) continue
+
+				const id = sanitizeShortcode(file.basename)
+				// First file wins when two names sanitize to the same shortcode
+				if (!id || this.emojis.has(id)) continue
+
+				this.emojis.set(id, {
+					id,
+					name: file.basename,
+					keywords: id.split(/[_-]/),
+					skins: [],
+					version: 0,
+					src: this.plugin.app.vault.getResourcePath(file),
+					path: file.path,
+				})
+			}
+		}
+
+		if (process.env.NODE_ENV === 'development') {
+			console.log(
+				`Quick Emoji: Registered ${this.emojis.size} custom emojis.`
+			)
+		}
+	}
+
+	/**
+	 * Look up a custom emoji by shortcode
+	 * @param shortcode - The shortcode without colons
+	 * @returns The custom emoji or null if not registered
+	 */
+	get(shortcode: string): CustomEmoji | null {
+		return (
+			this.emojis.get(shortcode) ??
+			this.emojis.get(shortcode.toLowerCase()) ??
+			this.registered.get(shortcode) ??
+			this.registered.get(shortcode.toLowerCase()) ??
+			null
+		)
+	}
+
+	/**
+	 * All registered custom emojis, sorted by shortcode. Emojis from the
+	 * folder win over registered ones with the same shortcode.
+	 */
+	getAll(): CustomEmoji[] {
+		return [
+			...this.emojis.values(),
+			...[...this.registered.values()].filter(
+				(emoji) => !this.emojis.has(emoji.id)
+			),
+		].sort((a, b) => a.id.localeCompare(b.id))
+	}
+
+	/**
+	 * Add a custom emoji that isn't backed by a file in the folder, e.g.
+	 * from another plugin. It survives rescans of the folder.
+	 * @param emoji - The emoji, with a sanitized shortcode as its id
+	 */
+	register(emoji: CustomEmoji): void {
+		this.registered.set(emoji.id, emoji)
+	}
+
+	/**
+	 * Remove a custom emoji added with register
+	 * @param shortcode - The shortcode of the emoji
+	 * @returns Whether an emoji was removed
+	 */
+	unregister(shortcode: string): boolean {
+		return this.registered.delete(shortcode)
+	}
+
+	/**
+	 * Find custom emojis whose shortcode or name contains the query
+	 * @param query - The search query
+	 * @returns Matching custom emojis, prefix matches first
+	 */
+	search(query: string): CustomEmoji[] {
+		const needle = query.toLowerCase()
+		if (!needle) return this.getAll()
+
+		return this.getAll()
+			.filter(
+				(emoji) =>
+					emoji.id.includes(needle) ||
+					emoji.name.toLowerCase().includes(needle)
+			)
+			.sort(
+				(a, b) =>
+					Number(!a.id.startsWith(needle)) -
+					Number(!b.id.startsWith(needle))
+			)
+	}
+
+	/**
+	 * Clear the registry to free memory
+	 */
+	clear(): void {
+		this.emojis.clear()
+		this.registered.clear()
+	}
+
+	/**
+	 * Rescan if a created, deleted or renamed file touches the folder
+	 */
+	private onFileChanged(file: TAbstractFile, oldPath?: string): void {
+		const folder = this.getFolder()
+		if (!folder) return
+
+		const touchesFolder =
+			this.isInFolder(file.path, folder) ||
+			(oldPath !== undefined && this.isInFolder(oldPath, folder))
+		if (!touchesFolder) return
+
+		this.scan()
+		this.plugin.refreshEmojiRendering()
+	}
+
+	private isCustomEmojiFile(file: TFile, folder: string): boolean {
+		return (
+			this.isInFolder(file.path, folder) &&
+			CUSTOM_EMOJI_EXTENSIONS.includes(file.extension.toLowerCase())
+		)
+	}
+
+	private isInFolder(path: string, folder: string): boolean {
+		return (
+			folder === '/' || path === folder || path.startsWith(`${folder}/`)
+		)
+	}
+}
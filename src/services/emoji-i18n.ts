@@ -0,0 +1,140 @@
+import { getEmojiMap } from '../rendering/emoji-renderer'
+
+/**
+ * Languages with bundled emoji names and keywords (CLDR annotations
+ * from emojibase-data). English is always searchable through emoji-mart.
+ */
+export const SEARCH_LANGUAGES: Record<string, string> = {
+	de: 'Deutsch',
+	es: 'Español',
+	fr: 'Français',
+	it: 'Italiano',
+	ja: '日本語',
+	ko: '한국어',
+	nl: 'Nederlands',
+	pt: 'Português',
+	ru: 'Русский',
+	zh: '中文',
+}
+
+// Static loaders so the bundler can include each locale file.
+// esbuild.config.mjs strips the files down to hexcode, label and tags.
+const LOCALE_LOADERS: Record<string, () => Promise<unknown>> = {
+	de: () => import('emojibase-data/de/compact.json'),
+	es: () => import('emojibase-data/es/compact.json'),
+	fr: () => import('emojibase-data/fr/compact.json'),
+	it: () => import('emojibase-data/it/compact.json'),
+	ja: () => import('emojibase-data/ja/compact.json'),
+	ko: () => import('emojibase-data/ko/compact.json'),
+	nl: () => import('emojibase-data/nl/compact.json'),
+	pt: () => import('emojibase-data/pt/compact.json'),
+	ru: () => import('emojibase-data/ru/compact.json'),
+	zh: () => import('emojibase-data/zh/compact.json'),
+}
+
+/**
+ * Shape of the emojibase compact entries we rely on
+ */
+interface LocaleEntry {
+	hexcode: string
+	label: string
+	tags?: string[]
+}
+
+/**
+ * Localized name and keywords for an emoji
+ */
+export interface LocalizedEmoji {
+	name: string
+	keywords: string[]
+}
+
+/**
+ * Localized emoji data per language, keyed by emoji-mart ID
+ */
+const localeCache = new Map<string, Map<string, LocalizedEmoji>>()
+
+/**
+ * Normalize a code point sequence so emoji-mart "unified" values and
+ * emojibase hexcodes compare equal (case and variation selectors differ)
+ * @param hexcode - Dash-separated code points
+ */
+export function normalizeHexcode(hexcode: string): string {
+	return hexcode
+		.toUpperCase()
+		.split('-')
+		.filter((part) => part !== 'FE0F')
+		.join('-')
+}
+
+/**
+ * Load localized names and keywords for a language
+ * @param language - A key of SEARCH_LANGUAGES
+ * @returns Map of emoji-mart ID to localized data, empty if unavailable
+ */
+export async function getLocalizedEmojis(
+	language: string
+): Promise<Map<string, LocalizedEmoji>> {
+	const cached = localeCache.get(language)
+	if (cached) return cached
+
+	const localized = new Map<string, LocalizedEmoji>()
+	const loader = LOCALE_LOADERS[language]
+	if (!loader) return localized
+
+	try {
+		const module = (await loader()) as {
+			default?: LocaleEntry[]
+		}
+		const entries = (module.default ?? module) as LocaleEntry[]
+
+		// Match emojibase entries to emoji-mart IDs by code points
+		const idsByHexcode = new Map<string, string>()
+		const emojiMap = await getEmojiMap()
+		Object.values(emojiMap).forEach((emoji) => {
+			const unified = emoji.skins?.[0]?.unified
+			if (unified) idsByHexcode.set(normalizeHexcode(unified), emoji.id)
+		})
+
+		for (const entry of entries) {
+			const id = idsByHexcode.get(normalizeHexcode(entry.hexcode))
+			if (!id) continue
+			localized.set(id, {
+				name: entry.label,
+				keywords: (entry.tags ?? []).map((tag) => tag.toLowerCase()),
+			})
+		}
+
+		localeCache.set(language, localized)
+	} catch (error) {
+		if (process.env.NODE_ENV === 'development') {
+			console.error(
+				'Quick Emoji: Failed to load emoji data for language:',
+				language,
+				error
+			)
+		}
+	}
+
+	return localized
+}
+
+/**
+ * Synchronously get an emoji's name in a language that was already loaded
+ * @param emojiId - The emoji-mart ID
+ * @param language - A key of SEARCH_LANGUAGES
+ * @returns The localized name, or null if not available
+ */
+export function getLocalizedName(
+	emojiId: string,
+	language: string
+): string | null {
+	return localeCache.get(language)?.get(emojiId)?.name ?? null
+}
+
+/**
+ * Clear cached locale data (useful for cleanup)
+ */
+export function clearLocaleCache(): void {
+	localeCache.clear()
+}
@@ -0,0 +1,273 @@
+import { TAbstractFile, TFile } from 'obsidian'
+
+import {
+	type ConversionOptions,
+	type TextRange,
+	getNativeMatcher,
+} from './format-converter'
+
+import type QuickEmojiPlugin from '../main'
+import {
+	SHORTCODE_REGEX,
+	getEmojiMap,
+	getProcessableLines,
+	lookupShortcode,
+} from '../rendering/emoji-renderer'
+
+/**
+ * An emoji found in a note, as a Unicode character or a shortcode
+ */
+export interface EmojiOccurrence extends TextRange {
+	id: string // Emoji ID, or custom emoji shortcode
+	line: number // Zero-based line number
+	context: string // The trimmed line containing the emoji
+}
+
+/**
+ * Every place one emoji is used in the vault
+ */
+export interface EmojiIndexEntry {
+	id: string
+	count: number
+	notes: Map<string, EmojiOccurrence[]> // Note path → occurrences in that note
+}
+
+/**
+ * Emoji Index
+ * Tracks which notes use which emojis, built on first use and kept up to
+ * date note by note as the vault changes
+ */
+export class EmojiIndex {
+	private notes = new Map<string, EmojiOccurrence[]>() // Note path → occurrences
+	private building: Promise<void> | null = null
+	private generation = 0 // Bumped when the index starts over, so stale scans stop
+	private resolvableKey = '' // What resolved when the index was built
+	private listeners = new Set<() => void>()
+
+	constructor(private plugin: QuickEmojiPlugin) {}
+
+	/**
+	 * Register vault listeners that update single notes. Nothing is indexed
+	 * until the index is first built.
+	 */
+	registerEvents(): void {
+		const { vault } = this.plugin.app
+
+		this.plugin.registerEvent(
+			vault.on('create', (file) => this.onFileChanged(file))
+		)
+		this.plugin.registerEvent(
+			vault.on('modify', (file) => this.onFileChanged(file))
+		)
+		this.plugin.registerEvent(
+			vault.on('delete', (file) => this.onFileRemoved(file.path))
+		)
+		this.plugin.registerEvent(
+			vault.on('rename', (file, oldPath) => {
+				this.onFileRemoved(oldPath)
+				this.onFileChanged(file)
+			})
+		)
+	}
+
+	/**
+	 * Index every note in the vault, once
+	 */
+	build(): Promise<void> {
+		if (!this.building) {
+			this.resolvableKey = this.getResolvableKey()
+			this.building = this.scan(this.generation)
+		}
+		return this.building
+	}
+
+	/**
+	 * Start over if the set of resolvable shortcodes changed (aliases,
+	 * dialects, custom emojis); other setting changes keep the index.
+	 * Rebuilds right away only while watched.
+	 */
+	invalidate(): void {
+		if (!this.building) return
+		if (this.getResolvableKey() === this.resolvableKey) return
+
+		this.generation++
+		this.notes.clear()
+		this.building = null
+		if (this.listeners.size > 0) this.build()
+	}
+
+	/**
+	 * Subscribe to index changes
+	 * @returns A function that unsubscribes
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener)
+		return () => this.listeners.delete(listener)
+	}
+
+	/**
+	 * Group the indexed occurrences by emoji
+	 * @returns Entries with the most used emoji first
+	 */
+	getEntries(): EmojiIndexEntry[] {
+		const entries = new Map<string, EmojiIndexEntry>()
+
+		for (const [path, occurrences] of this.notes) {
+			for (const occurrence of occurrences) {
+				let entry = entries.get(occurrence.id)
+				if (!entry) {
+					entry = { id: occurrence.id, count: 0, notes: new Map() }
+					entries.set(occurrence.id, entry)
+				}
+				entry.count++
+				const noteOccurrences = entry.notes.get(path) ?? []
+				noteOccurrences.push(occurrence)
+				entry.notes.set(path, noteOccurrences)
+			}
+		}
+
+		return [...entries.values()].sort(
+			(a, b) => b.count - a.count || a.id.localeCompare(b.id)
+		)
+	}
+
+	/**
+	 * Drop the index and its listeners
+	 */
+	clear(): void {
+		this.generation++
+		this.notes.clear()
+		this.listeners.clear()
+		this.building = null
+	}
+
+	/**
+	 * Index every note, stopping early once the index starts over
+	 * @param generation - The generation this scan belongs to
+	 */
+	private async scan(generation: number): Promise<void> {
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			await this.indexFile(file, false)
+			if (generation !== this.generation) return
+		}
+		this.notify()
+	}
+
+	/**
+	 * Aliases, dialects and custom emojis, which decide what is indexed
+	 */
+	private getResolvableKey(): string {
+		return JSON.stringify([
+			this.plugin.settings.aliases,
+			this.plugin.getShortcodeDialects(),
+			this.plugin.customEmojis.getAll().map((emoji) => emoji.id),
+		])
+	}
+
+	/**
+	 * Index the emojis in one note
+	 * @param notify - Tell listeners once the note is indexed
+	 */
+	private async indexFile(file: TFile, notify = true): Promise<void> {
+		const generation = this.generation
+		try {
+			const content = await this.plugin.app.vault.cachedRead(file)
+			const occurrences = await findEmojiOccurrences(
+				content,
+				this.plugin.getConversionOptions()
+			)
+			// The index started over while this note was read
+			if (generation !== this.generation) return
+
+			if (occurrences.length > 0) {
+				this.notes.set(file.path, occurrences)
+			} else {
+				this.notes.delete(file.path)
+			}
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error(
+					'Failed to index emojis in note:',
+					file.path,
+					error
+				)
+			}
+		}
+
+		if (notify) this.notify()
+	}
+
+	private onFileChanged(file: TAbstractFile): void {
+		if (!this.building) return
+		if (file instanceof TFile && file.extension === 'md') {
+			this.indexFile(file)
+		}
+	}
+
+	private onFileRemoved(path: string): void {
+		if (!this.building) return
+		if (this.notes.delete(path)) this.notify()
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) listener()
+	}
+}
+
+/**
+ * Find every emoji in a text, both Unicode characters and shortcodes that
+ * resolve, ignoring frontmatter, code, math and URLs
+ * @param text - The full document text
+ * @param options - Aliases and custom emojis that resolve
+ * @returns The emojis in document order
+ */
+export async function findEmojiOccurrences(
+	text: string,
+	options: Pick<ConversionOptions, 'aliases' | 'isCustomEmoji'>
+): Promise<EmojiOccurrence[]> {
+	const emojiMap = await getEmojiMap()
+	const { regex, ids } = await getNativeMatcher()
+	const occurrences: EmojiOccurrence[] = []
+
+	for (const { line, offset, text: masked } of getProcessableLines(text)) {
+		const context = text.slice(offset, offset + masked.length).trim()
+		const found: EmojiOccurrence[] = []
+		const add = (id: string, from: number, length: number) =>
+			found.push({
+				id,
+				line,
+				from: offset + from,
+				to: offset + from + length,
+				context,
+			})
+
+		for (const match of masked.matchAll(regex)) {
+			const id = ids.get(match[0])
+			if (id) add(id, match.index!, match[0].length)
+		}
+
+		for (const match of masked.matchAll(new RegExp(SHORTCODE_REGEX, 'g'))) {
+			if (options.isCustomEmoji?.(match[1])) {
+				add(match[1], match.index!, match[0].length)
+				continue
+			}
+
+			const emoji = lookupShortcode(
+				emojiMap,
+				match[0].slice(1, -1),
+				options.aliases
+			)?.emoji
+			// Dialect shortcodes like :thumbsup_tone3: resolve to emojis
+			// that aren't in emoji-mart; count them under their base emoji
+			const id =
+				emoji && !emojiMap[emoji.id]
+					? ids.get(emoji.skins[0]?.native)
+					: emoji?.id
+			if (id) add(id, match.index!, match[0].length)
+		}
+
+		occurrences.push(...found.sort((a, b) => a.from - b.from))
+	}
+
+	return occurrences
+}
@@ -1,6 +1,8 @@
 import { Notice } from 'obsidian'
 
-import type { EmojiMartData } from '@emoji-mart/data'
+import type { Emoji, EmojiMartData } from '@emoji-mart/data'
+
+import { getLocalizedEmojis } from './emoji-i18n'
 
 // Use a module-level variable to cache the SearchIndex instance (singleton pattern).
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -9,6 +11,10 @@ let isInitializing = false
 // Queue for resolvers waiting for initialization to complete
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const pendingResolvers: Array<(value: any) => void> = []
+// Extra languages whose keywords are merged into the search index
+let searchLanguages: string[] = []
+// emoji-mart's original per-emoji search strings, so languages can be swapped
+const baseSearchStrings = new Map<string, string>()
 
 /**
  * Lazily initializes and returns the emoji-mart SearchIndex.
@@ -43,6 +49,9 @@ export async function getSearchIndex(): Promise<any | null> {
 		// Perform the initialization.
 		await init({ data: emojiData as EmojiMartData, set: 'native' })
 
+		// Merge keywords for the configured search languages
+		await applySearchLanguages()
+
 		// Cache the initialized SearchIndex.
 		searchIndex = SearchIndex
 
@@ -74,6 +83,63 @@ export async function getSearchIndex(): Promise<any | null> {
 	}
 }
 
+/**
+ * Set the extra languages used for search, on top of English.
+ * Applies immediately if the search index is already initialized.
+ * @param languages - Language codes from SEARCH_LANGUAGES
+ */
+export async function setSearchLanguages(languages: string[]): Promise<void> {
+	searchLanguages = [...languages]
+	if (searchIndex) {
+		await applySearchLanguages()
+	}
+}
+
+/**
+ * Append localized names and keywords to emoji-mart's search strings.
+ * emoji-mart matches queries against a comma-separated `search` string
+ * built during init, so extending it makes localized words searchable.
+ */
+async function applySearchLanguages(): Promise<void> {
+	try {
+		const data = await getEmojiData()
+		const localized = await Promise.all(
+			searchLanguages.map((language) => getLocalizedEmojis(language))
+		)
+
+		for (const emoji of Object.values(data.emojis) as Array<
+			Emoji & { search?: string }
+		>) {
+			if (!emoji.search) continue
+			if (!baseSearchStrings.has(emoji.id)) {
+				baseSearchStrings.set(emoji.id, emoji.search)
+			}
+
+			const words = localized.flatMap((entries) => {
+				const entry = entries.get(emoji.id)
+				if (!entry) return []
+				return [
+					...entry.name.toLowerCase().split(/[\s,]+/),
+					...entry.keywords.map((keyword) =>
+						keyword.replace(/,/g, ' ')
+					),
+				]
+			})
+
+			emoji.search =
+				baseSearchStrings.get(emoji.id) +
+				(words.length > 0 ? `,${words.join(',')}` : '')
+		}
+	} catch (error) {
+		if (process.env.NODE_ENV === 'development') {
+			console.error(
+				'Quick Emoji: Failed to apply search languages:',
+				error
+			)
+		}
+	}
+}
+
 /**
  * Synchronously check if the search index is ready without triggering initialization.
  * Useful for providing loading states in the UI.
@@ -94,3 +160,123 @@ export function clearSearchIndex(): void {
 		console.log('Quick Emoji: SearchIndex cache cleared.')
 	}
 }
+
+/**
+ * Load the raw emoji-mart data, including categories.
+ * The data module is cached by the bundler after the first import.
+ * @returns A promise that resolves to the emoji-mart data set.
+ */
+export async function getEmojiData(): Promise<EmojiMartData> {
+	const emojiData = await import('@emoji-mart/data')
+	return emojiData as EmojiMartData
+}
+
+/**
+ * Strip variation selectors so text and emoji presentations match
+ */
+function normalizeNative(native: string): string {
+	return native.replace(/\uFE0F/g, '')
+}
+
+/**
+ * Resolves stored emoji references (favorites, recents, settings) from
+ * prebuilt indexes, without going through fuzzy search
+ */
+export class EmojiLookup {
+	private byNativeIndex = new Map<string, Emoji>()
+
+	constructor(private emojis: Record<string, Emoji>) {
+		for (const emoji of Object.values(emojis)) {
+			for (const skin of emoji.skins ?? []) {
+				const native = normalizeNative(skin.native)
+				// Keep the first emoji claiming a character
+				if (!this.byNativeIndex.has(native)) {
+					this.byNativeIndex.set(native, emoji)
+				}
+			}
+		}
+	}
+
+	/**
+	 * Find an emoji by its emoji-mart ID
+	 * @param id - The emoji ID (e.g. '+1', '100')
+	 */
+	byId(id: string): Emoji | null {
+		return Object.prototype.hasOwnProperty.call(this.emojis, id)
+			? this.emojis[id]
+			: null
+	}
+
+	/**
+	 * Find an emoji by its native character, including skin tone variants
+	 * @param native - The emoji character (e.g. '👍🏽')
+	 */
+	byNative(native: string): Emoji | null {
+		return this.byNativeIndex.get(normalizeNative(native)) ?? null
+	}
+
+	/**
+	 * Find an emoji through a user-defined shortcode alias
+	 * @param alias - The alias shortcode (e.g. 'lgtm')
+	 * @param aliases - Map of alias shortcodes to emoji IDs
+	 */
+	byAlias(alias: string, aliases: Record<string, string>): Emoji | null {
+		return Object.prototype.hasOwnProperty.call(aliases, alias)
+			? this.byId(aliases[alias])
+			: null
+	}
+
+	/**
+	 * Resolve a stored reference by ID, then alias, then native character
+	 * @param reference - An emoji ID, alias or emoji character
+	 * @param aliases - Map of alias shortcodes to emoji IDs
+	 * @returns The emoji, or null if the reference doesn't resolve exactly
+	 */
+	resolve(
+		reference: string,
+		aliases: Record<string, string> = {}
+	): Emoji | null {
+		return (
+			this.byId(reference) ??
+			this.byAlias(reference, aliases) ??
+			this.byNative(reference)
+		)
+	}
+}
+
+/**
+ * Stored emoji IDs split into those that resolve and those that don't
+ */
+export interface ResolvedEmojiIds {
+	emojis: Map<string, Emoji> // Stored ID → emoji
+	unresolved: string[] // IDs no emoji matches exactly
+}
+
+// Cached lookup, built on first use
+let emojiLookup: EmojiLookup | null = null
+
+/**
+ * Get the emoji lookup, building its indexes on the first call
+ * @returns A promise that resolves to the lookup, or null if data can't load
+ */
+export async function getEmojiLookup(): Promise<EmojiLookup | null> {
+	if (emojiLookup) return emojiLookup
+
+	try {
+		const data = await getEmojiData()
+		emojiLookup = new EmojiLookup(data.emojis)
+		return emojiLookup
+	} catch (error) {
+		if (process.env.NODE_ENV === 'development') {
+			console.error('Quick Emoji: Failed to build emoji lookup:', error)
+		}
+		return null
+	}
+}
+
+/**
+ * Clear the cached emoji lookup (useful for cleanup)
+ */
+export function clearEmojiLookup(): void {
+	emojiLookup = null
+}
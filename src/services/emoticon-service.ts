@@ -0,0 +1,110 @@
+import { type Emoji } from '@emoji-mart/data'
+
+import type QuickEmojiPlugin from '../main'
+import { getEmojiMap, lookupEmoji } from '../rendering/emoji-renderer'
+
+/**
+ * An emoticon found right before the cursor
+ */
+export interface EmoticonMatch {
+	emoticon: string
+	emoji: Emoji
+	from: number // Offset of the emoticon within the searched text
+}
+
+/**
+ * Built-in emoticon → emoji ID table, read from emoji-mart's `emoticons`
+ * data. The first emoji claiming an emoticon wins.
+ * @returns Promise that resolves to the emoticon table
+ */
+export async function getDefaultEmoticons(): Promise<Record<string, string>> {
+	const emojiMap = await getEmojiMap()
+	const emoticons: Record<string, string> = {}
+
+	for (const emoji of Object.values(emojiMap)) {
+		for (const emoticon of emoji.emoticons ?? []) {
+			if (!(emoticon in emoticons)) emoticons[emoticon] = emoji.id
+		}
+	}
+
+	return emoticons
+}
+
+/**
+ * Emoticon Service
+ * Keeps the effective emoticon table (built-in entries merged with the
+ * user's edits) ready for synchronous lookups while typing
+ */
+export class EmoticonService {
+	private emoticons = new Map<string, Emoji>()
+	private longestFirst: string[] = []
+
+	constructor(private plugin: QuickEmojiPlugin) {}
+
+	/**
+	 * The effective emoticon → emoji ID table
+	 */
+	async getTable(): Promise<Record<string, string>> {
+		const { customEmoticons, disabledEmoticons } = this.plugin.settings
+		const table = { ...(await getDefaultEmoticons()), ...customEmoticons }
+		for (const emoticon of disabledEmoticons) {
+			delete table[emoticon]
+		}
+		return table
+	}
+
+	/**
+	 * Rebuild the lookup table from settings. Call after the emoticon
+	 * settings, aliases or custom emojis change.
+	 */
+	async load(): Promise<void> {
+		const emoticons = new Map<string, Emoji>()
+
+		try {
+			const emojiMap = await getEmojiMap()
+			const table = await this.getTable()
+			for (const [emoticon, emojiId] of Object.entries(table)) {
+				const emoji =
+					this.plugin.customEmojis.get(emojiId) ??
+					lookupEmoji(emojiMap, emojiId, this.plugin.settings.aliases)
+				if (emoticon && emoji) emoticons.set(emoticon, emoji)
+			}
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Quick Emoji: Failed to load emoticons:', error)
+			}
+		}
+
+		this.emoticons = emoticons
+		// Prefer the longest emoticon, so ">:(" wins over ":("
+		this.longestFirst = [...emoticons.keys()].sort(
+			(a, b) => b.length - a.length
+		)
+	}
+
+	/**
+	 * Find an emoticon at the end of a text. The emoticon must stand on its
+	 * own: at the start of the text or after whitespace.
+	 * @param textBefore - Text of the line up to the cursor
+	 * @returns The matched emoticon, or null if there is none
+	 */
+	match(textBefore: string): EmoticonMatch | null {
+		for (const emoticon of this.longestFirst) {
+			if (!textBefore.endsWith(emoticon)) continue
+
+			const from = textBefore.length - emoticon.length
+			if (from > 0 && !/\s/.test(textBefore[from - 1])) continue
+
+			return { emoticon, emoji: this.emoticons.get(emoticon)!, from }
+		}
+		return null
+	}
+
+	/**
+	 * Drop the lookup table (useful for cleanup)
+	 */
+	clear(): void {
+		this.emoticons.clear()
+		this.longestFirst = []
+	}
+}
@@ -0,0 +1,312 @@
+import { Editor } from 'obsidian'
+
+import { type Emoji } from '@emoji-mart/data'
+
+import { getDialectShortcode } from './shortcode-dialects'
+
+import {
+	SHORTCODE_REGEX,
+	getEmojiMap,
+	getShortcodeCharacter,
+	getProcessableLines,
+	lookupShortcode,
+} from '../rendering/emoji-renderer'
+import type {
+	InsertionFormat,
+	ShortcodeDialect,
+	SkinSetting,
+} from '../ui/settings-tab'
+import { formatShortcode, sanitizeShortcode } from '../utils'
+
+/**
+ * A range of the source text, using character offsets
+ */
+export interface TextRange {
+	from: number
+	to: number
+}
+
+/**
+ * A single text replacement
+ */
+export interface EmojiChange extends TextRange {
+	text: string
+}
+
+/**
+ * Result of scanning a text for emojis to convert
+ */
+export interface ConversionResult {
+	changes: EmojiChange[]
+	unknown: TextRange[] // Shortcodes that could not be resolved
+}
+
+/**
+ * Options that affect how emojis are converted
+ */
+export interface ConversionOptions {
+	skin: SkinSetting
+	aliases: Record<string, string>
+	dialect?: ShortcodeDialect // Dialect of the shortcodes written (defaults to emoji-mart ids)
+	isCustomEmoji?: (shortcode: string) => boolean // Custom emojis stay as shortcodes
+}
+
+/**
+ * Cached matcher for native emoji characters, built on first use
+ */
+let nativeMatcherCache: NativeMatcher | null = null
+
+/**
+ * Regex for native emojis, with the emoji ID and skin tone of each character
+ */
+export interface NativeMatcher {
+	regex: RegExp
+	ids: Map<string, string>
+	skinTones: Map<string, SkinSetting> // Only characters with a skin tone
+}
+
+/**
+ * Build a regex matching every native emoji (including skin tone variants)
+ * along with a lookup from native character to emoji ID and skin tone
+ */
+export async function getNativeMatcher(): Promise<NativeMatcher> {
+	if (nativeMatcherCache) return nativeMatcherCache
+
+	const emojiMap = await getEmojiMap()
+	const ids = new Map<string, string>()
+	const skinTones = new Map<string, SkinSetting>()
+	Object.values(emojiMap).forEach((emoji: Emoji) => {
+		emoji.skins?.forEach((skin, index) => {
+			if (skin.native && !ids.has(skin.native)) {
+				ids.set(skin.native, emoji.id)
+				if (index > 0) skinTones.set(skin.native, index as SkinSetting)
+			}
+		})
+	})
+
+	// Longest first so ZWJ sequences and skin variants win over their parts
+	const pattern = [...ids.keys()]
+		.sort((a, b) => b.length - a.length)
+		.map((native) => native.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+		.join('|')
+
+	nativeMatcherCache = {
+		regex: new RegExp(pattern, 'gu'),
+		ids,
+		skinTones,
+	}
+	return nativeMatcherCache
+}
+
+/**
+ * Clear the native matcher cache (useful for cleanup)
+ */
+export function clearNativeMatcherCache(): void {
+	nativeMatcherCache = null
+}
+
+/**
+ * Find every shortcode in a text and compute its Unicode replacement
+ * @param text - The full document text
+ * @param options - Conversion options
+ * @returns The replacements and any shortcodes that could not be resolved
+ */
+export async function findShortcodeConversions(
+	text: string,
+	options: ConversionOptions
+): Promise<ConversionResult> {
+	return scanShortcodes(text, await getEmojiMap(), options)
+}
+
+/**
+ * Find shortcode replacements with the emoji data already loaded
+ */
+function scanShortcodes(
+	text: string,
+	emojiMap: Record<string, Emoji>,
+	options: ConversionOptions
+): ConversionResult {
+	const result: ConversionResult = { changes: [], unknown: [] }
+
+	for (const { offset: lineOffset, text: lineText } of getProcessableLines(
+		text
+	)) {
+		const matches = lineText.matchAll(new RegExp(SHORTCODE_REGEX, 'g'))
+		for (const match of matches) {
+			const shortcodeId = match[1]
+			if (options.isCustomEmoji?.(shortcodeId)) continue
+
+			const from = lineOffset + match.index!
+			const to = from + match[0].length
+			// The whole match, so a skin tone suffix is kept
+			const resolved = lookupShortcode(
+				emojiMap,
+				match[0].slice(1, -1),
+				options.aliases
+			)
+			if (!resolved) {
+				result.unknown.push({ from, to })
+				continue
+			}
+
+			result.changes.push({
+				from,
+				to,
+				text: getShortcodeCharacter(resolved, options.skin),
+			})
+		}
+	}
+
+	return result
+}
+
+/**
+ * Find every native emoji in a text and compute its shortcode replacement
+ * @param text - The full document text
+ * @param dialect - Shortcode dialect to write (defaults to emoji-mart ids)
+ * @returns The replacements (native emojis are never unknown)
+ */
+export async function findUnicodeConversions(
+	text: string,
+	dialect: ShortcodeDialect = 'emoji-mart'
+): Promise<ConversionResult> {
+	return scanUnicode(text, await getNativeMatcher(), dialect)
+}
+
+/**
+ * Find native emoji replacements with the matcher already built
+ */
+function scanUnicode(
+	text: string,
+	{ regex, ids, skinTones }: NativeMatcher,
+	dialect: ShortcodeDialect = 'emoji-mart'
+): ConversionResult {
+	const result: ConversionResult = { changes: [], unknown: [] }
+
+	for (const { offset: lineOffset, text: lineText } of getProcessableLines(
+		text
+	)) {
+		for (const match of lineText.matchAll(regex)) {
+			const emojiId = ids.get(match[0])
+			if (!emojiId) continue
+
+			const from = lineOffset + match.index!
+			// Toned characters keep their tone as a shortcode suffix
+			result.changes.push({
+				from,
+				to: from + match[0].length,
+				text: formatShortcode(
+					dialect === 'emoji-mart'
+						? sanitizeShortcode(emojiId)
+						: getDialectShortcode(emojiId, dialect),
+					skinTones.get(match[0]) ?? 0,
+					dialect
+				),
+			})
+		}
+	}
+
+	return result
+}
+
+/**
+ * Find the changes needed to convert all emojis in a text to a format
+ * @param text - The full document text
+ * @param target - The format to convert to
+ * @param options - Conversion options
+ */
+export async function findConversions(
+	text: string,
+	target: InsertionFormat,
+	options: ConversionOptions
+): Promise<ConversionResult> {
+	const convert = await createConverter(target, options)
+	return convert(text)
+}
+
+/**
+ * Load the emoji data a conversion needs once, for converting many texts
+ * or converting synchronously (e.g. inside vault.process)
+ * @param target - The format to convert to
+ * @param options - Conversion options
+ * @returns A function that finds the changes for a text
+ */
+export async function createConverter(
+	target: InsertionFormat,
+	options: ConversionOptions
+): Promise<(text: string) => ConversionResult> {
+	if (target === 'unicode') {
+		const emojiMap = await getEmojiMap()
+		return (text) => scanShortcodes(text, emojiMap, options)
+	}
+	const matcher = await getNativeMatcher()
+	return (text) => scanUnicode(text, matcher, options.dialect)
+}
+
+/**
+ * Apply a set of non-overlapping changes to a text
+ * @param text - The original text
+ * @param changes - Changes with offsets into the original text
+ * @returns The text with all changes applied
+ */
+export function applyChanges(text: string, changes: EmojiChange[]): string {
+	let output = ''
+	let lastIndex = 0
+	for (const change of [...changes].sort((a, b) => a.from - b.from)) {
+		output += text.slice(lastIndex, change.from) + change.text
+		lastIndex = change.to
+	}
+	return output + text.slice(lastIndex)
+}
+
+/**
+ * Convert emojis in the editor's selections, or the whole note when nothing
+ * is selected, as a single undoable transaction
+ * @param editor - The Obsidian Editor instance
+ * @param target - The format to convert to
+ * @param options - Conversion options
+ * @returns The applied changes and the unknown shortcodes in scope
+ */
+export async function convertEditorEmojis(
+	editor: Editor,
+	target: InsertionFormat,
+	options: ConversionOptions
+): Promise<ConversionResult> {
+	const ranges: TextRange[] = editor
+		.listSelections()
+		.map(({ anchor, head }) => {
+			const a = editor.posToOffset(anchor)
+			const b = editor.posToOffset(head)
+			return { from: Math.min(a, b), to: Math.max(a, b) }
+		})
+		.filter((range) => range.from !== range.to)
+
+	// Scan the whole note so multi-line code blocks are detected correctly,
+	// then keep only what falls inside the selected ranges
+	const inScope = (item: TextRange) =>
+		ranges.length === 0 ||
+		ranges.some((range) => item.from >= range.from && item.to <= range.to)
+
+	const text = editor.getValue()
+	const result = await findConversions(text, target, options)
+
+	// Offsets are stale if the note was edited while emoji data was loading
+	if (editor.getValue() !== text) {
+		return { changes: [], unknown: [] }
+	}
+
+	const changes = result.changes.filter(inScope)
+	const unknown = result.unknown.filter(inScope)
+
+	if (changes.length > 0) {
+		editor.transaction({
+			changes: changes.map((change) => ({
+				from: editor.offsetToPos(change.from),
+				to: editor.offsetToPos(change.to),
+				text: change.text,
+			})),
+		})
+	}
+
+	return { changes, unknown }
+}
@@ -0,0 +1,226 @@
+import { Editor, EventRef, Events } from 'obsidian'
+
+import { type Emoji } from '@emoji-mart/data'
+
+import { getSearchIndex } from './emoji-service'
+
+import type QuickEmojiPlugin from '../main'
+import { resolveEmojiCharacter } from '../rendering/emoji-renderer'
+import { type FavoriteGroup, getFavoriteIds } from '../storage/favorites'
+import type { InsertionFormat, SkinSetting } from '../ui/settings-tab'
+import {
+	type CustomEmoji,
+	formatEmoji,
+	getActiveEditor,
+	insertEmoji,
+	sanitizeShortcode,
+} from '../utils'
+
+/**
+ * Where an inserted emoji came from
+ */
+export type EmojiInsertSource =
+	| 'suggester'
+	| 'picker'
+	| 'settings'
+	| 'emoticon'
+	| 'swap'
+	| 'command'
+	| 'api'
+
+/**
+ * Payload of the 'emoji-inserted' event
+ */
+export interface EmojiInsertedEvent {
+	emoji: Emoji
+	text: string // The text written to the note: a character or a shortcode
+	source: EmojiInsertSource
+}
+
+/**
+ * A custom image emoji registered by another plugin
+ */
+export interface CustomEmojiDefinition {
+	id: string // Shortcode without colons; sanitized like file names
+	src: string // Image URL usable as an <img> source
+	name?: string // Display name, defaults to the id
+	keywords?: string[] // Extra search terms
+}
+
+/**
+ * Quick Emoji API
+ * Lets other plugins and scripts search, resolve and insert emojis with the
+ * user's settings. Available as `app.plugins.plugins['quick-emoji'].api`.
+ *
+ * @example
+ * const api = app.plugins.plugins['quick-emoji'].api
+ * const [rocket] = await api.search('rocket')
+ * await api.insertEmoji(rocket)
+ * const ref = api.on('emoji-inserted', ({ emoji }) => console.log(emoji.id))
+ * api.offref(ref)
+ */
+export class QuickEmojiApi extends Events {
+	/** Bumped when the API changes incompatibly */
+	readonly version = 1
+
+	constructor(private plugin: QuickEmojiPlugin) {
+		super()
+	}
+
+	/**
+	 * Search emojis by name and keyword, custom emojis first
+	 * @param query - The search text (e.g. 'rocket')
+	 * @param limit - Maximum number of results
+	 */
+	async search(query: string, limit = 20): Promise<Emoji[]> {
+		const searchIndex = await getSearchIndex()
+		const results: Emoji[] = (await searchIndex?.search(query)) ?? []
+		return [...this.plugin.customEmojis.search(query), ...results].slice(
+			0,
+			limit
+		)
+	}
+
+	/**
+	 * Look up an emoji by id, alias, shortcode or character
+	 * @param id - E.g. 'rocket', ':+1:' or '🚀'
+	 * @returns The emoji, or null if nothing matches
+	 */
+	async getEmoji(id: string): Promise<Emoji | null> {
+		const reference = id.match(/^:(.+):$/)?.[1] ?? id
+		const { emojis } = await this.plugin.resolveEmojiIds([reference])
+		return emojis.get(reference) ?? null
+	}
+
+	/**
+	 * Resolve an emoji id or shortcode to its character. Custom emojis have
+	 * no character; use getEmoji for those.
+	 * @param id - E.g. 'rocket', ':wave::skin-tone-3:' or an alias
+	 * @param skin - Skin tone, defaults to the user's default skin tone
+	 * @returns The emoji character, or null if the id doesn't resolve
+	 */
+	resolve(id: string, skin?: SkinSetting): Promise<string | null> {
+		const { settings } = this.plugin
+		return resolveEmojiCharacter(
+			id.match(/^:(.+):$/)?.[1] ?? id,
+			skin ?? settings.skin,
+			settings.aliases
+		)
+	}
+
+	/**
+	 * Text for an emoji as the user would insert it
+	 * @param emoji - The emoji
+	 * @param format - Defaults to the user's insertion format
+	 */
+	format(emoji: Emoji, format?: InsertionFormat): string {
+		const { settings } = this.plugin
+		return formatEmoji(
+			emoji,
+			format ?? settings.insertionFormat,
+			settings.skin,
+			settings.insertionDialect
+		)
+	}
+
+	/**
+	 * Insert an emoji at the cursor with the user's format, skin tone and
+	 * dialect, and count it as recently used
+	 * @param emoji - The emoji, or an id, shortcode or character
+	 * @param editor - Defaults to the active editor
+	 * @returns Whether the emoji was inserted
+	 */
+	async insertEmoji(
+		emoji: Emoji | string,
+		editor?: Editor
+	): Promise<boolean> {
+		const resolved =
+			typeof emoji === 'string' ? await this.getEmoji(emoji) : emoji
+		const target = editor ?? getActiveEditor(this.plugin.app)
+		if (!resolved || !target) return false
+
+		const { settings } = this.plugin
+		this.plugin.saveRecentEmoji(resolved)
+		const text = insertEmoji(
+			target,
+			resolved,
+			settings.insertionFormat,
+			settings.skin,
+			settings.insertionDialect
+		)
+		this.plugin.emitEmojiInserted(resolved, text, 'api')
+		return true
+	}
+
+	/**
+	 * Favorite emoji ids in display order, across all groups
+	 */
+	getFavorites(): string[] {
+		return getFavoriteIds(this.plugin.settings.favoriteGroups)
+	}
+
+	/**
+	 * Favorite groups in display order
+	 */
+	getFavoriteGroups(): FavoriteGroup[] {
+		return this.plugin.settings.favoriteGroups.map((group) => ({
+			name: group.name,
+			emojis: [...group.emojis],
+		}))
+	}
+
+	/**
+	 * Recently used emoji ids, most used first
+	 */
+	getRecents(): string[] {
+		return [...this.plugin.recentEmojis]
+	}
+
+	/**
+	 * Add a custom image emoji that is suggested, rendered and inserted
+	 * like the ones from the custom emoji folder
+	 * @param definition - The emoji's shortcode and image
+	 * @returns A function that removes the emoji again; call it when your
+	 * plugin unloads
+	 */
+	registerCustomEmoji(definition: CustomEmojiDefinition): () => void {
+		const id = sanitizeShortcode(definition.id)
+		if (!id) throw new Error(`Invalid custom emoji id: ${definition.id}`)
+
+		const emoji: CustomEmoji = {
+			id,
+			name: definition.name ?? id,
+			keywords: definition.keywords ?? id.split(/[_-]/),
+			skins: [],
+			version: 0,
+			src: definition.src,
+			path: '',
+		}
+		this.plugin.customEmojis.register(emoji)
+		this.plugin.refreshEmojiRendering()
+
+		return () => {
+			if (this.plugin.customEmojis.unregister(id)) {
+				this.plugin.refreshEmojiRendering()
+			}
+		}
+	}
+
+	/**
+	 * Subscribe to emojis inserted through the suggester, picker, settings,
+	 * emoticon replacement, click-to-swap, commands or this API
+	 * @returns A reference to pass to offref
+	 */
+	on(
+		name: 'emoji-inserted',
+		callback: (event: EmojiInsertedEvent) => unknown,
+		ctx?: unknown
+	): EventRef
+	on(
+		name: string,
+		callback: (...data: never[]) => unknown,
+		ctx?: unknown
+	): EventRef {
+		return super.on(name, callback as (...data: unknown[]) => unknown, ctx)
+	}
+}
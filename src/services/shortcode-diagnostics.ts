@@ -0,0 +1,139 @@
+import type { ConversionOptions } from './format-converter'
+
+import {
+	SHORTCODE_REGEX,
+	getEmojiMap,
+	getProcessableLines,
+	lookupShortcode,
+} from '../rendering/emoji-renderer'
+
+/**
+ * A shortcode-shaped token that doesn't resolve to any emoji
+ */
+export interface UnresolvedShortcode {
+	from: number
+	to: number
+	shortcode: string // Shortcode without colons
+	line: number // Zero-based line number
+}
+
+/**
+ * Check if a shortcode-shaped token is part of a time or ratio such as
+ * 10:30:45, where ':30:' is not meant as a shortcode
+ * @param text - The text containing the token
+ * @param from - Start of the token, at its opening colon
+ * @param to - End of the token, after its closing colon
+ */
+export function isTimeLike(text: string, from: number, to: number): boolean {
+	if (!/^:\d+:$/.test(text.slice(from, to))) return false
+	return /\d/.test(text.charAt(from - 1)) || /\d/.test(text.charAt(to))
+}
+
+/**
+ * Find every shortcode in a text that doesn't resolve, ignoring
+ * frontmatter, code, math, URLs and time-like strings
+ * @param text - The full document text
+ * @param options - Aliases and custom emojis that count as resolved
+ * @returns The unresolved shortcodes in document order
+ */
+export async function findUnresolvedShortcodes(
+	text: string,
+	options: ConversionOptions
+): Promise<UnresolvedShortcode[]> {
+	const emojiMap = await getEmojiMap()
+	const unresolved: UnresolvedShortcode[] = []
+
+	for (const { line, offset, text: lineText } of getProcessableLines(text)) {
+		for (const match of lineText.matchAll(
+			new RegExp(SHORTCODE_REGEX, 'g')
+		)) {
+			const from = match.index!
+			const to = from + match[0].length
+			const shortcode = match[1]
+			if (isTimeLike(lineText, from, to)) continue
+			if (options.isCustomEmoji?.(shortcode)) continue
+			if (
+				lookupShortcode(
+					emojiMap,
+					match[0].slice(1, -1),
+					options.aliases
+				)
+			) {
+				continue
+			}
+
+			unresolved.push({
+				from: offset + from,
+				to: offset + to,
+				shortcode,
+				line,
+			})
+		}
+	}
+
+	return unresolved
+}
+
+/**
+ * Edit distance between two strings, counting a swap of two neighbouring
+ * characters as one edit. Gives up once the distance exceeds a limit.
+ * @returns The distance, or limit + 1 if the strings are further apart
+ */
+function editDistance(a: string, b: string, limit: number): number {
+	if (Math.abs(a.length - b.length) > limit) return limit + 1
+
+	let beforePrevious: number[] = []
+	let previous = Array.from({ length: b.length + 1 }, (_v, i) => i)
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i]
+		let rowMin = i
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + cost
+			)
+			if (
+				i > 1 &&
+				j > 1 &&
+				a[i - 1] === b[j - 2] &&
+				a[i - 2] === b[j - 1]
+			) {
+				current[j] = Math.min(current[j], beforePrevious[j - 2] + 1)
+			}
+			rowMin = Math.min(rowMin, current[j])
+		}
+		if (rowMin > limit) return limit + 1
+		beforePrevious = previous
+		previous = current
+	}
+	return previous[b.length]
+}
+
+/**
+ * Suggest emoji ids close to a mistyped shortcode
+ * @param shortcode - The unresolved shortcode, without colons
+ * @param candidates - Valid ids: emoji-mart ids, aliases and custom emojis
+ * @param limit - Maximum number of suggestions
+ * @returns The closest ids, best match first
+ */
+export function suggestShortcodes(
+	shortcode: string,
+	candidates: string[],
+	limit = 5
+): string[] {
+	const query = shortcode.toLowerCase()
+	// Allow roughly one typo per three characters
+	const maxDistance = Math.max(1, Math.floor(query.length / 3))
+
+	return [...new Set(candidates)]
+		.map((id) => ({
+			id,
+			distance: editDistance(query, id.toLowerCase(), maxDistance),
+		}))
+		.filter(({ distance }) => distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance || a.id.length - b.id.length)
+		.slice(0, limit)
+		.map(({ id }) => id)
+}
@@ -0,0 +1,175 @@
+import { type Emoji } from '@emoji-mart/data'
+
+import { normalizeHexcode } from './emoji-i18n'
+
+import { getEmojiMap } from '../rendering/emoji-renderer'
+import type { ShortcodeDialect } from '../ui/settings-tab'
+
+/**
+ * Shortcode dialects and their display names. emoji-mart ids are the
+ * plugin's native shortcodes and always resolve.
+ */
+export const SHORTCODE_DIALECTS: Record<ShortcodeDialect, string> = {
+	'emoji-mart': 'emoji-mart (default)',
+	github: 'GitHub',
+	slack: 'Slack',
+	discord: 'Discord',
+}
+
+// Static loaders so the bundler can include each shortcode file.
+// Slack uses iamcal's emoji-data, Discord follows the JoyPixels set.
+const DIALECT_LOADERS: Record<
+	Exclude<ShortcodeDialect, 'emoji-mart'>,
+	() => Promise<unknown>
+> = {
+	github: () => import('emojibase-data/en/shortcodes/github.json'),
+	slack: () => import('emojibase-data/en/shortcodes/iamcal.json'),
+	discord: () => import('emojibase-data/en/shortcodes/joypixels.json'),
+}
+
+/**
+ * Shortcodes of one dialect, resolved against emoji-mart data
+ */
+interface DialectShortcodes {
+	emojis: Map<string, Emoji> // Shortcode → emoji
+	shortcodes: Map<string, string> // emoji-mart ID → preferred shortcode
+}
+
+/**
+ * Loaded dialects, keyed by dialect
+ */
+const dialectCache = new Map<ShortcodeDialect, DialectShortcodes>()
+
+/**
+ * Dialects that renderers and converters resolve, in lookup order
+ */
+let activeDialects: ShortcodeDialect[] = []
+
+/**
+ * Build an emoji for a code point sequence emoji-mart doesn't list on its
+ * own, such as skin tone modifiers or toned variants (:thumbsup_tone2:)
+ */
+function createSequenceEmoji(shortcode: string, hexcode: string): Emoji {
+	const native = String.fromCodePoint(
+		...hexcode.split('-').map((part) => parseInt(part, 16))
+	)
+	return {
+		id: shortcode,
+		name: shortcode.replace(/[_-]/g, ' '),
+		keywords: [],
+		skins: [{ unified: hexcode.toLowerCase(), native }],
+		version: 0,
+	}
+}
+
+/**
+ * Load the shortcodes of a dialect
+ * @param dialect - The dialect to load
+ * @returns The dialect's shortcodes, empty if unavailable
+ */
+async function loadDialect(
+	dialect: ShortcodeDialect
+): Promise<DialectShortcodes> {
+	const cached = dialectCache.get(dialect)
+	if (cached) return cached
+
+	const loaded: DialectShortcodes = {
+		emojis: new Map(),
+		shortcodes: new Map(),
+	}
+	if (dialect === 'emoji-mart') return loaded
+
+	try {
+		const module = (await DIALECT_LOADERS[dialect]()) as {
+			default?: Record<string, string | string[]>
+		}
+		const entries = (module.default ?? module) as Record<
+			string,
+			string | string[]
+		>
+
+		// Match dialect entries to emoji-mart emojis by code points
+		const emojisByHexcode = new Map<string, Emoji>()
+		const emojiMap = await getEmojiMap()
+		Object.values(emojiMap).forEach((emoji) => {
+			const unified = emoji.skins?.[0]?.unified
+			if (unified) emojisByHexcode.set(normalizeHexcode(unified), emoji)
+		})
+
+		for (const [hexcode, value] of Object.entries(entries)) {
+			const shortcodes = Array.isArray(value) ? value : [value]
+			const emoji = emojisByHexcode.get(normalizeHexcode(hexcode))
+
+			for (const shortcode of shortcodes) {
+				loaded.emojis.set(
+					shortcode,
+					emoji ?? createSequenceEmoji(shortcode, hexcode)
+				)
+			}
+			// The first shortcode is the dialect's preferred one
+			if (emoji && !loaded.shortcodes.has(emoji.id)) {
+				loaded.shortcodes.set(emoji.id, shortcodes[0])
+			}
+		}
+
+		dialectCache.set(dialect, loaded)
+	} catch (error) {
+		if (process.env.NODE_ENV === 'development') {
+			console.error(
+				'Quick Emoji: Failed to load shortcode dialect:',
+				dialect,
+				error
+			)
+		}
+	}
+
+	return loaded
+}
+
+/**
+ * Set the dialects that shortcodes are resolved in and load their data
+ * @param dialects - Dialects to resolve, in lookup order
+ */
+export async function setShortcodeDialects(
+	dialects: ShortcodeDialect[]
+): Promise<void> {
+	await Promise.all(dialects.map((dialect) => loadDialect(dialect)))
+	activeDialects = [...new Set(dialects)]
+}
+
+/**
+ * Synchronously resolve a shortcode in the active dialects
+ * @param shortcode - Shortcode without colons (e.g. 'thumbsup')
+ * @returns The emoji, or null if no active dialect knows the shortcode
+ */
+export function lookupDialectShortcode(shortcode: string): Emoji | null {
+	for (const dialect of activeDialects) {
+		const dialectShortcodes = dialectCache.get(dialect)
+		const emoji =
+			dialectShortcodes?.emojis.get(shortcode) ??
+			dialectShortcodes?.emojis.get(shortcode.toLowerCase())
+		if (emoji) return emoji
+	}
+	return null
+}
+
+/**
+ * Synchronously get the shortcode for an emoji in a loaded dialect
+ * @param emojiId - The emoji-mart ID
+ * @param dialect - The dialect to write
+ * @returns The dialect's shortcode, falling back to the emoji-mart ID
+ */
+export function getDialectShortcode(
+	emojiId: string,
+	dialect: ShortcodeDialect
+): string {
+	return dialectCache.get(dialect)?.shortcodes.get(emojiId) ?? emojiId
+}
+
+/**
+ * Clear loaded dialect data (useful for cleanup)
+ */
+export function clearDialectCache(): void {
+	dialectCache.clear()
+	activeDialects = []
+}
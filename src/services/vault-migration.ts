@@ -0,0 +1,232 @@
+import { normalizePath, Notice, TFile } from 'obsidian'
+
+import {
+	type ConversionResult,
+	applyChanges,
+	createConverter,
+} from './format-converter'
+
+import type QuickEmojiPlugin from '../main'
+import type { InsertionFormat } from '../ui/settings-tab'
+
+/**
+ * Name prefix of report notes, which later runs leave untouched
+ */
+const REPORT_PREFIX = 'Quick Emoji migration report'
+
+/**
+ * Options for a vault-wide emoji migration
+ */
+export interface VaultMigrationOptions {
+	folder: string // Folder to migrate ('' for the whole vault)
+	excludedFolders: string[] // Folders to leave untouched
+	dryRun: boolean // Only write a report, don't modify any notes
+}
+
+/**
+ * Outcome of migrating a single note
+ */
+export interface FileMigrationResult {
+	path: string
+	changes: number
+	unknown: number // Shortcodes that could not be resolved
+	error?: string
+}
+
+/**
+ * Vault Emoji Migration
+ * Converts emojis in every Markdown note (or a folder) to the configured
+ * insertion format, with an optional dry run that only writes a report note
+ */
+export class VaultEmojiMigration {
+	constructor(private plugin: QuickEmojiPlugin) {}
+
+	/**
+	 * Run the migration
+	 * @param options - Scope and mode of the migration
+	 * @returns Per-file results for notes that have changes, unknown shortcodes or errors
+	 */
+	async run(options: VaultMigrationOptions): Promise<FileMigrationResult[]> {
+		const target = this.plugin.settings.insertionFormat
+		const files = this.getFiles(options)
+		const results: FileMigrationResult[] = []
+		const convert = await createConverter(
+			target,
+			this.plugin.getConversionOptions()
+		)
+
+		const progress = new Notice('Quick Emoji: Scanning notes…', 0)
+		try {
+			for (const [index, file] of files.entries()) {
+				if (index % 50 === 0) {
+					progress.setMessage(
+						`Quick Emoji: Processing notes ${index + 1}/${files.length}…`
+					)
+				}
+
+				const result = await this.migrateFile(
+					file,
+					convert,
+					options.dryRun
+				)
+				if (result.changes > 0 || result.unknown > 0 || result.error) {
+					results.push(result)
+				}
+			}
+		} finally {
+			progress.hide()
+		}
+
+		if (options.dryRun) {
+			await this.writeReport(results, files.length, target, options)
+		} else {
+			const changed = results.filter((r) => r.changes > 0 && !r.error)
+			const failed = results.filter((r) => r.error)
+			const total = changed.reduce((sum, r) => sum + r.changes, 0)
+			new Notice(
+				`Quick Emoji: Converted ${total} emojis in ${changed.length} notes.` +
+					(failed.length > 0
+						? ` ${failed.length} notes could not be converted; see the report.`
+						: '')
+			)
+			// List the notes left unconverted so they can be fixed by hand
+			if (failed.length > 0) {
+				await this.writeReport(results, files.length, target, options)
+			}
+		}
+
+		return results
+	}
+
+	/**
+	 * Markdown files within the chosen folder, minus excluded folders and
+	 * earlier reports
+	 */
+	private getFiles(options: VaultMigrationOptions): TFile[] {
+		const folder = this.normalizeFolder(options.folder)
+		const excluded = options.excludedFolders
+			.map((path) => this.normalizeFolder(path))
+			.filter((path) => path !== '')
+
+		return this.plugin.app.vault
+			.getMarkdownFiles()
+			.filter(
+				(file) =>
+					(folder === '' || this.isInFolder(file.path, folder)) &&
+					!this.isReport(file) &&
+					!excluded.some((path) => this.isInFolder(file.path, path))
+			)
+			.sort((a, b) => a.path.localeCompare(b.path))
+	}
+
+	/**
+	 * Convert a single note, or only count its changes in dry-run mode
+	 * @param convert - Finds the changes for a note's text
+	 */
+	private async migrateFile(
+		file: TFile,
+		convert: (text: string) => ConversionResult,
+		dryRun: boolean
+	): Promise<FileMigrationResult> {
+		const { vault } = this.plugin.app
+		const result: FileMigrationResult = {
+			path: file.path,
+			changes: 0,
+			unknown: 0,
+		}
+
+		try {
+			const { changes, unknown } = convert(await vault.cachedRead(file))
+			result.changes = changes.length
+			result.unknown = unknown.length
+
+			if (dryRun || changes.length === 0) return result
+
+			// Write through the vault API so other plugins see the change,
+			// converting the note's current text in case it changed since
+			// it was read
+			await vault.process(file, (data) => {
+				const current = convert(data)
+				result.changes = current.changes.length
+				result.unknown = current.unknown.length
+				return applyChanges(data, current.changes)
+			})
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Failed to migrate emojis in', file.path, error)
+			}
+			result.changes = 0
+			result.error = 'Failed to read or write note'
+		}
+
+		return result
+	}
+
+	/**
+	 * Write a report note listing each file and its pending changes (dry
+	 * run) or its applied changes and errors, then open it
+	 */
+	private async writeReport(
+		results: FileMigrationResult[],
+		scanned: number,
+		target: InsertionFormat,
+		options: VaultMigrationOptions
+	): Promise<void> {
+		const { vault, workspace } = this.plugin.app
+		const total = results.reduce((sum, r) => sum + r.changes, 0)
+		const stamp = window.moment().format('YYYY-MM-DD HHmmss')
+
+		const lines = [
+			'# Quick Emoji migration report',
+			'',
+			`- Target format: ${target === 'unicode' ? 'Unicode emoji' : 'Shortcode'}`,
+			`- Scope: ${options.folder ? `\`${options.folder}\`` : 'Entire vault'}`,
+			`- Excluded folders: ${
+				options.excludedFolders.length > 0
+					? options.excludedFolders.map((f) => `\`${f}\``).join(', ')
+					: 'None'
+			}`,
+			`- Notes scanned: ${scanned}`,
+			`- Notes with changes: ${results.filter((r) => r.changes > 0).length}`,
+			`- Total changes: ${total}`,
+			'',
+			options.dryRun
+				? 'No notes were modified. Run the migration again without dry run to apply these changes.'
+				: `${results.filter((r) => r.error).length} notes could not be converted and were left unchanged.`,
+			'',
+		]
+
+		if (results.length > 0) {
+			lines.push(
+				'| Note | Changes | Unknown shortcodes |',
+				'| --- | ---: | ---: |',
+				...results.map(
+					(r) =>
+						`| [[${r.path.replace(/\.md$/, '')}]] | ${r.changes} | ${r.unknown}${r.error ? ` (${r.error})` : ''} |`
+				)
+			)
+		}
+
+		const path = normalizePath(`${REPORT_PREFIX} ${stamp}.md`)
+		const report = await vault.create(path, lines.join('\n') + '\n')
+		await workspace.getLeaf(true).openFile(report)
+	}
+
+	/**
+	 * Whether a note is a report written by an earlier run (reports are
+	 * created in the vault root)
+	 */
+	private isReport(file: TFile): boolean {
+		return file.path.startsWith(REPORT_PREFIX)
+	}
+
+	private normalizeFolder(folder: string): string {
+		const trimmed = folder.trim()
+		if (trimmed === '' || trimmed === '/') return ''
+		return normalizePath(trimmed)
+	}
+
+	private isInFolder(path: string, folder: string): boolean {
+		return path.startsWith(`${folder}/`)
+	}
+}
@@ -0,0 +1,169 @@
+/**
+ * Usage statistics for a single emoji
+ */
+export interface EmojiUsageEntry {
+	count: number // Total number of uses
+	lastUsed: number // Timestamp (ms) of the most recent use
+	score: number // Decayed use frequency as of lastUsed
+}
+
+/**
+ * Usage statistics keyed by emoji ID
+ */
+export type EmojiUsageData = Record<string, EmojiUsageEntry>
+
+/**
+ * Time for a use to lose half of its weight in the score
+ */
+export const USAGE_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000 // One week
+
+/**
+ * Maximum number of emojis to keep statistics for
+ */
+const MAX_TRACKED_EMOJIS = 200
+
+/**
+ * Emoji Usage Tracker
+ * Ranks emojis by frecency: every use adds one point to an emoji's score,
+ * and scores decay exponentially over time. An emoji used fifty times a day
+ * stays on top through a burst of one-offs, while emojis that are no longer
+ * used gradually drop out.
+ */
+export class EmojiUsageTracker {
+	private entries: EmojiUsageData
+
+	constructor(entries: EmojiUsageData = {}) {
+		this.entries = { ...entries }
+	}
+
+	/**
+	 * Record a use of an emoji
+	 * @param emojiId - The emoji ID
+	 * @param now - Timestamp of the use (defaults to the current time)
+	 */
+	record(emojiId: string, now = Date.now()): void {
+		const entry = this.entries[emojiId]
+		this.entries[emojiId] = {
+			count: (entry?.count ?? 0) + 1,
+			lastUsed: now,
+			score: (entry ? this.decayedScore(entry, now) : 0) + 1,
+		}
+		this.prune(now)
+	}
+
+	/**
+	 * Current frecency score of an emoji (0 if never used)
+	 * @param emojiId - The emoji ID
+	 * @param now - Timestamp to evaluate the score at
+	 */
+	score(emojiId: string, now = Date.now()): number {
+		const entry = this.entries[emojiId]
+		return entry ? this.decayedScore(entry, now) : 0
+	}
+
+	/**
+	 * Emoji IDs ordered by score, highest first
+	 * @param limit - Maximum number of IDs to return
+	 * @param now - Timestamp to evaluate scores at
+	 */
+	getRanked(limit = Infinity, now = Date.now()): string[] {
+		return Object.keys(this.entries)
+			.map((id) => ({ id, score: this.score(id, now) }))
+			.sort(
+				(a, b) =>
+					b.score - a.score ||
+					this.entries[b.id].lastUsed - this.entries[a.id].lastUsed
+			)
+			.slice(0, limit)
+			.map(({ id }) => id)
+	}
+
+	/**
+	 * The most recently used emoji ID, regardless of score
+	 * @returns The emoji ID, or null if nothing was used yet
+	 */
+	getLastUsed(): string | null {
+		let last: string | null = null
+		for (const [id, entry] of Object.entries(this.entries)) {
+			if (!last || entry.lastUsed > this.entries[last].lastUsed) {
+				last = id
+			}
+		}
+		return last
+	}
+
+	/**
+	 * Merge statistics recorded elsewhere, e.g. on another device that
+	 * changed the synced history at the same time. For emojis known to both
+	 * sides the larger count and the later use win, and the higher of the
+	 * two scores (decayed to that later use) is kept, so merging the same
+	 * data again changes nothing.
+	 * @param entries - The statistics to merge in
+	 * @returns true if any statistics changed
+	 */
+	merge(entries: EmojiUsageData): boolean {
+		let changed = false
+
+		for (const [id, other] of Object.entries(entries)) {
+			const entry = this.entries[id]
+			if (!entry) {
+				this.entries[id] = { ...other }
+				changed = true
+				continue
+			}
+
+			const lastUsed = Math.max(entry.lastUsed, other.lastUsed)
+			const merged: EmojiUsageEntry = {
+				count: Math.max(entry.count, other.count),
+				lastUsed,
+				score: Math.max(
+					this.decayedScore(entry, lastUsed),
+					this.decayedScore(other, lastUsed)
+				),
+			}
+			if (
+				merged.count !== entry.count ||
+				merged.lastUsed !== entry.lastUsed ||
+				merged.score !== entry.score
+			) {
+				this.entries[id] = merged
+				changed = true
+			}
+		}
+
+		if (changed) this.prune(Date.now())
+		return changed
+	}
+
+	/**
+	 * Snapshot of the raw statistics for persistence
+	 */
+	toJSON(): EmojiUsageData {
+		return { ...this.entries }
+	}
+
+	/**
+	 * Forget all usage statistics
+	 */
+	clear(): void {
+		this.entries = {}
+	}
+
+	private decayedScore(entry: EmojiUsageEntry, now: number): number {
+		const elapsed = Math.max(0, now - entry.lastUsed)
+		return entry.score * Math.pow(0.5, elapsed / USAGE_HALF_LIFE_MS)
+	}
+
+	/**
+	 * Drop the lowest-scoring emojis to keep storage bounded
+	 */
+	private prune(now: number): void {
+		const ids = Object.keys(this.entries)
+		if (ids.length <= MAX_TRACKED_EMOJIS) return
+
+		const keep = new Set(this.getRanked(MAX_TRACKED_EMOJIS, now))
+		for (const id of ids) {
+			if (!keep.has(id)) delete this.entries[id]
+		}
+	}
+}
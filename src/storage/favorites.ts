@@ -0,0 +1,113 @@
+/**
+ * A named group of favorite emojis
+ */
+export interface FavoriteGroup {
+	name: string
+	emojis: string[] // Emoji IDs in display order
+}
+
+/**
+ * Name of the group that flat favorites migrate into
+ */
+export const DEFAULT_FAVORITE_GROUP = 'Favorites'
+
+/**
+ * All favorite emoji IDs, in group order
+ * @param groups - The favorite groups
+ */
+export function getFavoriteIds(groups: FavoriteGroup[]): string[] {
+	return groups.flatMap((group) => group.emojis)
+}
+
+/**
+ * Check if an emoji is in any favorite group
+ * @param groups - The favorite groups
+ * @param emojiId - The emoji ID
+ */
+export function isFavorite(groups: FavoriteGroup[], emojiId: string): boolean {
+	return groups.some((group) => group.emojis.includes(emojiId))
+}
+
+/**
+ * Add an emoji to the end of a group, creating the default group if
+ * there are no groups yet. Like the other helpers, returns new arrays so
+ * the result can be assigned straight back to the settings.
+ * @param groups - The favorite groups
+ * @param emojiId - The emoji ID
+ * @param groupIndex - Index of the target group
+ */
+export function addFavorite(
+	groups: FavoriteGroup[],
+	emojiId: string,
+	groupIndex = 0
+): FavoriteGroup[] {
+	if (isFavorite(groups, emojiId)) return groups
+	if (groups.length === 0) {
+		return [{ name: DEFAULT_FAVORITE_GROUP, emojis: [emojiId] }]
+	}
+
+	return groups.map((group, index) =>
+		index === groupIndex
+			? { ...group, emojis: [...group.emojis, emojiId] }
+			: group
+	)
+}
+
+/**
+ * Remove an emoji from every favorite group
+ * @param groups - The favorite groups
+ * @param emojiId - The emoji ID
+ */
+export function removeFavorite(
+	groups: FavoriteGroup[],
+	emojiId: string
+): FavoriteGroup[] {
+	return groups.map((group) => ({
+		...group,
+		emojis: group.emojis.filter((id) => id !== emojiId),
+	}))
+}
+
+/**
+ * Move a favorite to a position in a group (possibly another group)
+ * @param groups - The favorite groups
+ * @param emojiId - The emoji ID to move
+ * @param groupIndex - Index of the target group
+ * @param position - Index within the target group, before removal of the emoji
+ */
+export function moveFavorite(
+	groups: FavoriteGroup[],
+	emojiId: string,
+	groupIndex: number,
+	position: number
+): FavoriteGroup[] {
+	// Account for the emoji leaving an earlier slot of the same group
+	const sourceIndex = groups[groupIndex]?.emojis.indexOf(emojiId) ?? -1
+	const target =
+		sourceIndex !== -1 && sourceIndex < position ? position - 1 : position
+
+	return removeFavorite(groups, emojiId).map((group, index) => {
+		if (index !== groupIndex) return group
+		const emojis = [...group.emojis]
+		emojis.splice(Math.min(target, emojis.length), 0, emojiId)
+		return { ...group, emojis }
+	})
+}
+
+/**
+ * Convert the legacy flat favorites list into groups
+ * @param favorites - Legacy favorites of unknown shape
+ * @returns A single default group, or no groups if there was nothing to keep
+ */
+export function migrateFlatFavorites(favorites: unknown): FavoriteGroup[] {
+	if (!Array.isArray(favorites)) return []
+
+	const emojis = [
+		...new Set(
+			favorites.filter(
+				(id): id is string => typeof id === 'string' && id.trim() !== ''
+			)
+		),
+	]
+	return emojis.length > 0 ? [{ name: DEFAULT_FAVORITE_GROUP, emojis }] : []
+}
@@ -1,5 +1,7 @@
 import { App } from 'obsidian'
 
+import type { EmojiUsageData, EmojiUsageEntry } from './emoji-usage'
+
 /**
  * Emoji Storage Migration
  * Handles migration from old emoji storage formats to new ones
@@ -7,9 +9,136 @@ import { App } from 'obsidian'
 export class EmojiStorageMigration {
 	constructor(
 		private app: App,
-		private storageKey: string
+		private storageKey: string,
+		private usageStorageKey: string
 	) {}
 
+	/**
+	 * Load emoji usage statistics, migrating the legacy recent list if needed
+	 * Legacy format: Ordered array of emoji IDs (most recent first)
+	 * New format: Per-emoji use counts, last-used timestamps and decayed scores
+	 * @returns Promise that resolves to the usage statistics
+	 */
+	async migrateUsageData(): Promise<EmojiUsageData> {
+		try {
+			const usageData = this.app.loadLocalStorage(this.usageStorageKey)
+			if (usageData) {
+				return this.cleanupUsageData(JSON.parse(usageData))
+			}
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error(
+					'Failed to load emoji usage from localStorage',
+					error
+				)
+			}
+			return {}
+		}
+
+		// No usage data yet: convert the legacy recent list, if any
+		const recentIds = await this.cleanupRecentEmojis(
+			await this.migrateRecentEmojis()
+		)
+		if (recentIds.length === 0) return {}
+
+		// Keep the legacy order by spacing last-used times one minute apart
+		const now = Date.now()
+		const usage: EmojiUsageData = {}
+		recentIds.forEach((id, index) => {
+			if (usage[id]) return
+			usage[id] = {
+				count: 1,
+				lastUsed: now - index * 60 * 1000,
+				score: 1,
+			}
+		})
+
+		try {
+			this.app.saveLocalStorage(
+				this.usageStorageKey,
+				JSON.stringify(usage)
+			)
+			this.app.saveLocalStorage(this.storageKey, null)
+
+			if (process.env.NODE_ENV === 'development') {
+				console.log(
+					'Quick Emoji: Migrated recent emojis to usage statistics'
+				)
+			}
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Failed to save migrated emoji usage', error)
+			}
+		}
+
+		return usage
+	}
+
+	/**
+	 * Move usage statistics out of localStorage, for syncing them through
+	 * plugin data instead. Runs once: localStorage is cleared afterwards.
+	 * @returns The statistics stored on this device, or null if there were none
+	 */
+	async migrateToPluginData(): Promise<EmojiUsageData | null> {
+		const usage = await this.migrateUsageData()
+		if (Object.keys(usage).length === 0) return null
+
+		await this.clearRecentEmojis()
+
+		if (process.env.NODE_ENV === 'development') {
+			console.log('Quick Emoji: Moved emoji usage to plugin data')
+		}
+		return usage
+	}
+
+	/**
+	 * Save usage statistics to localStorage, for per-device history
+	 * @param usage - The statistics to save
+	 */
+	saveUsageData(usage: EmojiUsageData): void {
+		try {
+			this.app.saveLocalStorage(
+				this.usageStorageKey,
+				JSON.stringify(usage)
+			)
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error(
+					'Failed to save emoji usage to localStorage',
+					error
+				)
+			}
+		}
+	}
+
+	/**
+	 * Drop malformed entries from stored usage statistics
+	 * @param data - Parsed usage data of unknown shape
+	 * @returns Only the well-formed entries
+	 */
+	cleanupUsageData(data: unknown): EmojiUsageData {
+		if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+			return {}
+		}
+
+		const cleaned: EmojiUsageData = {}
+		for (const [id, entry] of Object.entries(data)) {
+			const { count, lastUsed, score } = (entry ??
+				{}) as Partial<EmojiUsageEntry>
+			if (
+				id.trim() !== '' &&
+				id.length < 50 &&
+				typeof count === 'number' &&
+				typeof lastUsed === 'number' &&
+				typeof score === 'number' &&
+				Number.isFinite(score)
+			) {
+				cleaned[id] = { count, lastUsed, score }
+			}
+		}
+		return cleaned
+	}
+
 	/**
 	 * Migrate recent emojis from old format to new format
 	 * Old format: Array of Emoji objects with full data
@@ -138,11 +267,12 @@ export class EmojiStorageMigration {
 	}
 
 	/**
-	 * Clear all recent emojis from storage
+	 * Clear all recent emojis and usage statistics from storage
 	 */
 	async clearRecentEmojis(): Promise<void> {
 		try {
 			this.app.saveLocalStorage(this.storageKey, null)
+			this.app.saveLocalStorage(this.usageStorageKey, null)
 		} catch (error) {
 			if (process.env.NODE_ENV === 'development') {
 				console.error(
@@ -0,0 +1,298 @@
+import { Notice, normalizePath, type Plugin } from 'obsidian'
+
+import { migrateFlatFavorites } from './favorites'
+
+import { SEARCH_LANGUAGES } from '../services/emoji-i18n'
+import {
+	DEFAULT_SETTINGS,
+	SETTINGS_VERSION,
+	type QuickEmojiSettings,
+} from '../ui/settings-tab'
+
+type SettingsData = Record<string, unknown>
+
+/**
+ * A migration step upgrading settings to its version
+ */
+interface MigrationStep {
+	version: number
+	description: string
+	migrate: (data: SettingsData) => SettingsData
+}
+
+/**
+ * Migration steps in version order. Each step receives data of the
+ * previous version and returns data of its own version.
+ */
+const MIGRATION_STEPS: MigrationStep[] = [
+	{
+		version: 1,
+		description: 'Move flat favorites into a default group',
+		migrate: ({ favorites, ...data }) => ({
+			...data,
+			favoriteGroups:
+				data.favoriteGroups ?? migrateFlatFavorites(favorites),
+		}),
+	},
+]
+
+/**
+ * Validates one setting. Returns the value to keep, possibly clamped or
+ * cleaned, or undefined if the value is unusable.
+ */
+type Validator = (value: unknown) => unknown
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const boolean: Validator = (value) =>
+	typeof value === 'boolean' ? value : undefined
+
+const string: Validator = (value) =>
+	typeof value === 'string' ? value : undefined
+
+const oneOf =
+	(...options: string[]): Validator =>
+	(value) =>
+		typeof value === 'string' && options.includes(value) ? value : undefined
+
+const integer =
+	(min: number, max: number): Validator =>
+	(value) =>
+		typeof value === 'number' && Number.isFinite(value)
+			? Math.min(max, Math.max(min, Math.round(value)))
+			: undefined
+
+const stringArray =
+	(options?: string[]): Validator =>
+	(value) =>
+		Array.isArray(value)
+			? value.filter(
+					(item): item is string =>
+						typeof item === 'string' &&
+						(!options || options.includes(item))
+				)
+			: undefined
+
+const stringRecord: Validator = (value) =>
+	isPlainObject(value)
+		? Object.fromEntries(
+				Object.entries(value).filter(
+					([key, item]) => key !== '' && typeof item === 'string'
+				)
+			)
+		: undefined
+
+const skinTone = integer(0, 5)
+
+const DIALECTS = ['emoji-mart', 'github', 'slack', 'discord']
+
+/**
+ * Validators for every setting, keyed like QuickEmojiSettings
+ */
+const VALIDATORS: Record<keyof QuickEmojiSettings, Validator> = {
+	schemaVersion: integer(0, Number.MAX_SAFE_INTEGER),
+	skin: skinTone,
+	skinTones: (value) =>
+		isPlainObject(value)
+			? Object.fromEntries(
+					Object.entries(value)
+						.map(([id, tone]) => [id, skinTone(tone)])
+						.filter(([, tone]) => tone !== undefined)
+				)
+			: undefined,
+	recentCount: integer(5, 50),
+	syncRecentEmojis: boolean,
+	// Entries are cleaned by EmojiStorageMigration when loaded
+	emojiUsage: (value) => (isPlainObject(value) ? value : undefined),
+	favoriteGroups: (value) =>
+		Array.isArray(value)
+			? value
+					.filter(
+						(group) =>
+							isPlainObject(group) &&
+							typeof group.name === 'string' &&
+							Array.isArray(group.emojis)
+					)
+					.map((group) => ({
+						name: group.name,
+						emojis: stringArray()(group.emojis),
+					}))
+			: undefined,
+	insertionFormat: oneOf('unicode', 'shortcode'),
+	insertionDialect: oneOf(...DIALECTS),
+	shortcodeDialects: stringArray(DIALECTS),
+	customEmojiFolder: string,
+	aliases: stringRecord,
+	migrationExcludedFolders: stringArray(),
+	triggerString: (value) =>
+		typeof value === 'string' && value !== '' && !/\s/.test(value)
+			? value
+			: undefined,
+	minQueryLength: integer(0, 5),
+	triggerPrecedingChars: oneOf(
+		'whitespace',
+		'brackets',
+		'punctuation',
+		'any'
+	),
+	triggerExcludedContexts: stringArray([
+		'heading',
+		'table',
+		'frontmatter',
+		'code',
+	]),
+	searchLanguages: stringArray(Object.keys(SEARCH_LANGUAGES)),
+	emoticonReplacement: boolean,
+	customEmoticons: stringRecord,
+	disabledEmoticons: stringArray(),
+	shortcodeDiagnostics: boolean,
+	noteIconProperty: string,
+	favoriteCommands: boolean,
+}
+
+/**
+ * Outcome of migrating stored settings
+ */
+export interface SettingsMigrationResult {
+	settings: QuickEmojiSettings
+	changed: boolean // The stored data needs to be rewritten
+	problems: string[] // Human-readable descriptions of invalid values
+}
+
+/**
+ * Upgrade stored settings to the current schema and validate every value
+ * @param stored - Data loaded from data.json, of unknown shape
+ * @returns The settings to use, and whether they differ from what is stored
+ */
+export function migrateSettings(stored: unknown): SettingsMigrationResult {
+	const problems: string[] = []
+
+	if (stored === null || stored === undefined) {
+		return {
+			settings: structuredClone(DEFAULT_SETTINGS),
+			changed: false,
+			problems,
+		}
+	}
+	if (!isPlainObject(stored)) {
+		problems.push('Settings data is not an object')
+		return {
+			settings: structuredClone(DEFAULT_SETTINGS),
+			changed: true,
+			problems,
+		}
+	}
+
+	// Run every step newer than the stored version, in order
+	const storedVersion =
+		typeof stored.schemaVersion === 'number' ? stored.schemaVersion : 0
+	let data: SettingsData = { ...stored }
+	for (const step of MIGRATION_STEPS) {
+		if (step.version <= storedVersion) continue
+		data = step.migrate(data)
+		if (process.env.NODE_ENV === 'development') {
+			console.log(
+				`Quick Emoji: Settings migration ${step.version}:`,
+				step.description
+			)
+		}
+	}
+
+	// Validate each setting, falling back to its default. Defaults are
+	// copied so later edits to nested values can't change DEFAULT_SETTINGS.
+	const settings: Record<string, unknown> = structuredClone({
+		...DEFAULT_SETTINGS,
+	})
+	for (const [key, validate] of Object.entries(VALIDATORS)) {
+		if (!(key in data)) continue
+
+		const value = validate(data[key])
+		if (value === undefined) {
+			problems.push(`"${key}" was invalid and has been reset`)
+			continue
+		}
+		if (JSON.stringify(value) !== JSON.stringify(data[key])) {
+			problems.push(`"${key}" was out of range and has been adjusted`)
+		}
+		settings[key] = value
+	}
+
+	// Never downgrade data written by a newer version of the plugin
+	settings.schemaVersion = Math.max(storedVersion, SETTINGS_VERSION)
+
+	return {
+		settings: settings as unknown as QuickEmojiSettings,
+		// Data from a newer version may hold settings we don't know about
+		changed:
+			storedVersion <= SETTINGS_VERSION &&
+			(storedVersion < SETTINGS_VERSION || problems.length > 0),
+		problems,
+	}
+}
+
+/**
+ * Settings Migration
+ * Loads data.json through the migration pipeline, backing up the previous
+ * data before rewriting it
+ */
+export class SettingsMigration {
+	constructor(private plugin: Plugin) {}
+
+	/**
+	 * Load, migrate and validate the plugin settings
+	 * @returns The settings to use
+	 */
+	async load(): Promise<QuickEmojiSettings> {
+		const stored = await this.plugin.loadData()
+		const { settings, changed, problems } = migrateSettings(stored)
+
+		let backupPath: string | null = null
+		if (changed) {
+			// Only rewrite data.json once the previous data is safe
+			backupPath = await this.backup(stored)
+			if (backupPath || stored === null || stored === undefined) {
+				await this.plugin.saveData(settings)
+			}
+		}
+
+		if (problems.length > 0) {
+			new Notice(
+				`Quick Emoji: Some settings were invalid and have been fixed: ${problems.join('; ')}.` +
+					(backupPath
+						? ` Previous settings were backed up to ${backupPath}.`
+						: '')
+			)
+		}
+
+		return settings
+	}
+
+	/**
+	 * Write the stored data next to data.json before it is rewritten
+	 * @returns The backup path, or null if no backup could be written
+	 */
+	private async backup(stored: unknown): Promise<string | null> {
+		const dir = this.plugin.manifest.dir
+		if (!dir || stored === null || stored === undefined) return null
+
+		const version =
+			isPlainObject(stored) && typeof stored.schemaVersion === 'number'
+				? stored.schemaVersion
+				: 0
+		const path = normalizePath(`${dir}/data.v${version}.backup.json`)
+
+		try {
+			await this.plugin.app.vault.adapter.write(
+				path,
+				JSON.stringify(stored, null, 2)
+			)
+			return path
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Failed to back up plugin settings', error)
+			}
+			return null
+		}
+	}
+}
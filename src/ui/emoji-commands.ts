@@ -0,0 +1,191 @@
+import { Editor, Notice } from 'obsidian'
+
+import { type Emoji } from '@emoji-mart/data'
+
+import type QuickEmojiPlugin from '../main'
+import { getFavoriteIds } from '../storage/favorites'
+import { formatEmoji, getEmojiWithSkin, insertEmoji } from '../utils'
+
+/**
+ * Number of "Insert favorite #N" commands
+ */
+const FAVORITE_SLOTS = 10
+
+/**
+ * Emoji Commands
+ * Hotkey-bindable commands that insert favorites or the last used emoji
+ * without opening the suggester
+ */
+export class EmojiCommands {
+	private favoriteCommandIds: string[] = [] // Registered per-favorite commands
+	private refreshVersion = 0 // Latest refresh, so stale ones don't register
+
+	constructor(private plugin: QuickEmojiPlugin) {}
+
+	/**
+	 * Register the fixed commands. Per-favorite commands follow with
+	 * refreshFavoriteCommands once custom emojis are loaded.
+	 */
+	register(): void {
+		for (let slot = 1; slot <= FAVORITE_SLOTS; slot++) {
+			this.plugin.addCommand({
+				id: `insert-favorite-${slot}`,
+				name: `Insert favorite #${slot}`,
+				editorCheckCallback: (checking, editor) => {
+					const id = this.getFavoriteIds()[slot - 1]
+					if (!id) return false
+					if (!checking) this.insert(editor, id)
+					return true
+				},
+			})
+		}
+
+		this.plugin.addCommand({
+			id: 'insert-last-emoji',
+			name: 'Insert last used emoji',
+			editorCheckCallback: (checking, editor) => {
+				const id = this.plugin.emojiUsage.getLastUsed()
+				if (!id) return false
+				if (!checking) this.insert(editor, id)
+				return true
+			},
+		})
+
+		this.plugin.addCommand({
+			id: 'repeat-last-emoji-at-cursors',
+			name: 'Repeat last emoji at every cursor',
+			editorCheckCallback: (checking, editor) => {
+				const id = this.plugin.emojiUsage.getLastUsed()
+				if (!id) return false
+				if (!checking) this.insertAtEveryCursor(editor, id)
+				return true
+			},
+		})
+	}
+
+	/**
+	 * Re-register the per-favorite commands after favorites or the setting
+	 * changed
+	 */
+	async refreshFavoriteCommands(): Promise<void> {
+		const version = ++this.refreshVersion
+		const ids = this.plugin.settings.favoriteCommands
+			? this.getFavoriteIds()
+			: []
+		// Skip loading emoji data when there is nothing to register
+		const { emojis } =
+			ids.length > 0
+				? await this.plugin.resolveEmojiIds(ids)
+				: { emojis: new Map<string, Emoji>() }
+		// Favorites may have changed again while resolving
+		if (version !== this.refreshVersion) return
+
+		for (const commandId of this.favoriteCommandIds) {
+			this.plugin.removeCommand(commandId)
+		}
+		this.favoriteCommandIds = []
+
+		for (const id of ids) {
+			const emoji = emojis.get(id)
+			if (!emoji) continue
+
+			const commandId = `insert-emoji-${id}`
+			this.plugin.addCommand({
+				id: commandId,
+				name: `Insert ${this.getLabel(emoji)} ${emoji.name}`,
+				editorCallback: (editor) => this.insert(editor, id),
+			})
+			this.favoriteCommandIds.push(commandId)
+		}
+	}
+
+	/**
+	 * Favorite emoji ids in display order, without duplicates
+	 */
+	private getFavoriteIds(): string[] {
+		return [...new Set(getFavoriteIds(this.plugin.settings.favoriteGroups))]
+	}
+
+	/**
+	 * Character or shortcode shown in a command name
+	 */
+	private getLabel(emoji: Emoji): string {
+		return emoji.skins?.[0]?.native
+			? getEmojiWithSkin(emoji, this.plugin.settings.skin)
+			: `:${emoji.id}:`
+	}
+
+	/**
+	 * Resolve a stored emoji id, telling the user if it no longer exists
+	 */
+	private async resolve(id: string): Promise<Emoji | null> {
+		const { emojis } = await this.plugin.resolveEmojiIds([id])
+		const emoji = emojis.get(id) ?? null
+		if (!emoji) new Notice(`Quick Emoji: Unknown emoji :${id}:.`)
+		return emoji
+	}
+
+	/**
+	 * Insert an emoji at the cursor in the user's format and count the use
+	 */
+	private async insert(editor: Editor, id: string): Promise<void> {
+		const emoji = await this.resolve(id)
+		if (!emoji) return
+
+		const { insertionFormat, skin, insertionDialect } = this.plugin.settings
+		this.plugin.saveRecentEmoji(emoji)
+		const text = insertEmoji(
+			editor,
+			emoji,
+			insertionFormat,
+			skin,
+			insertionDialect
+		)
+		this.plugin.emitEmojiInserted(emoji, text, 'command')
+	}
+
+	/**
+	 * Insert an emoji at every cursor, replacing any selected text, as a
+	 * single undo step
+	 */
+	private async insertAtEveryCursor(
+		editor: Editor,
+		id: string
+	): Promise<void> {
+		const emoji = await this.resolve(id)
+		if (!emoji) return
+
+		const { insertionFormat, skin, insertionDialect } = this.plugin.settings
+		const text = formatEmoji(emoji, insertionFormat, skin, insertionDialect)
+		const ranges = editor
+			.listSelections()
+			.map(({ anchor, head }) => {
+				const a = editor.posToOffset(anchor)
+				const b = editor.posToOffset(head)
+				return { from: Math.min(a, b), to: Math.max(a, b) }
+			})
+			.sort((a, b) => a.from - b.from)
+
+		// Place each cursor after its inserted emoji
+		let shift = 0
+		const cursors = ranges.map(({ from, to }) => {
+			const cursor = from + shift + text.length
+			shift += text.length - (to - from)
+			return cursor
+		})
+
+		editor.transaction({
+			changes: ranges.map(({ from, to }) => ({
+				from: editor.offsetToPos(from),
+				to: editor.offsetToPos(to),
+				text,
+			})),
+		})
+		editor.setSelections(
+			cursors.map((offset) => ({ anchor: editor.offsetToPos(offset) }))
+		)
+
+		this.plugin.saveRecentEmoji(emoji)
+		this.plugin.emitEmojiInserted(emoji, text, 'command')
+	}
+}
@@ -0,0 +1,195 @@
+import {
+	ItemView,
+	Keymap,
+	MarkdownView,
+	type PaneType,
+	TFile,
+	WorkspaceLeaf,
+	setIcon,
+} from 'obsidian'
+
+import { type Emoji } from '@emoji-mart/data'
+
+import type QuickEmojiPlugin from '../main'
+import { getEmojiMap } from '../rendering/emoji-renderer'
+import type { EmojiIndexEntry, EmojiOccurrence } from '../services/emoji-index'
+import { setEmojiContent } from '../utils'
+
+export const EMOJI_INDEX_VIEW_TYPE = 'quick-emoji-index'
+
+/**
+ * Emoji Index View
+ * Sidebar listing every emoji used in the vault by how often it occurs.
+ * Each emoji expands to the notes and lines that contain it.
+ */
+export class EmojiIndexView extends ItemView {
+	plugin: QuickEmojiPlugin
+	private listEl: HTMLElement
+	private summaryEl: HTMLElement
+	private expanded = new Set<string>() // Emoji IDs whose notes are shown
+	private renderTimer: number | null = null
+	private unsubscribe: (() => void) | null = null
+
+	constructor(leaf: WorkspaceLeaf, plugin: QuickEmojiPlugin) {
+		super(leaf)
+		this.plugin = plugin
+	}
+
+	getViewType(): string {
+		return EMOJI_INDEX_VIEW_TYPE
+	}
+
+	getDisplayText(): string {
+		return 'Emoji index'
+	}
+
+	getIcon(): string {
+		return 'smile'
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this
+		contentEl.empty()
+		contentEl.addClass('qe-emoji-index')
+
+		this.summaryEl = contentEl.createDiv({
+			cls: 'qe-emoji-index-summary',
+			text: 'Indexing notes…',
+		})
+		this.listEl = contentEl.createDiv({ cls: 'qe-emoji-index-list' })
+
+		// Redraw as notes change, batching bursts of edits
+		this.unsubscribe = this.plugin.emojiIndex.onChange(() =>
+			this.scheduleRender()
+		)
+		await this.plugin.emojiIndex.build()
+		await this.render()
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.()
+		this.unsubscribe = null
+		if (this.renderTimer) {
+			window.clearTimeout(this.renderTimer)
+			this.renderTimer = null
+		}
+		this.contentEl.empty()
+	}
+
+	private scheduleRender(): void {
+		if (this.renderTimer) window.clearTimeout(this.renderTimer)
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null
+			this.render()
+		}, 300)
+	}
+
+	/**
+	 * Draw the list of emojis, keeping expanded entries open
+	 */
+	private async render(): Promise<void> {
+		const entries = this.plugin.emojiIndex.getEntries()
+		const emojiMap = await getEmojiMap()
+
+		const total = entries.reduce((sum, entry) => sum + entry.count, 0)
+		this.summaryEl.setText(
+			entries.length === 0
+				? 'No emojis found in the vault.'
+				: `${entries.length} ${entries.length === 1 ? 'emoji' : 'emojis'} used ${total} ${total === 1 ? 'time' : 'times'}.`
+		)
+
+		this.listEl.empty()
+		for (const entry of entries) {
+			this.renderEntry(
+				entry,
+				this.plugin.customEmojis.get(entry.id) ?? emojiMap[entry.id]
+			)
+		}
+	}
+
+	/**
+	 * Draw one emoji row and, if expanded, its notes and lines
+	 * @param emoji - The emoji, or undefined if it no longer resolves (e.g. a
+	 * custom emoji removed since indexing); shown by its shortcode
+	 */
+	private renderEntry(
+		entry: EmojiIndexEntry,
+		emoji: Emoji | undefined
+	): void {
+		const entryEl = this.listEl.createDiv({ cls: 'qe-emoji-index-entry' })
+		const isExpanded = this.expanded.has(entry.id)
+
+		const rowEl = entryEl.createDiv({
+			cls: 'qe-emoji-index-row tree-item-self is-clickable',
+		})
+		const toggleEl = rowEl.createSpan({ cls: 'qe-emoji-index-toggle' })
+		setIcon(toggleEl, isExpanded ? 'chevron-down' : 'chevron-right')
+		const emojiEl = rowEl.createSpan({ cls: 'qe-emoji-index-emoji' })
+		if (emoji) setEmojiContent(emojiEl, emoji, this.plugin.settings.skin)
+		rowEl.createSpan({
+			cls: 'qe-emoji-index-name',
+			text: emoji?.name ?? `:${entry.id}:`,
+		})
+		rowEl.createSpan({
+			cls: 'qe-emoji-index-count tree-item-flair',
+			text: String(entry.count),
+		})
+		rowEl.setAttribute('aria-label', `:${entry.id}:`)
+		rowEl.addEventListener('click', () => {
+			if (isExpanded) {
+				this.expanded.delete(entry.id)
+			} else {
+				this.expanded.add(entry.id)
+			}
+			this.render()
+		})
+
+		if (!isExpanded) return
+
+		const notesEl = entryEl.createDiv({ cls: 'qe-emoji-index-notes' })
+		const paths = [...entry.notes.keys()].sort((a, b) => a.localeCompare(b))
+		for (const path of paths) {
+			notesEl.createDiv({ cls: 'qe-emoji-index-path', text: path })
+			for (const occurrence of entry.notes.get(path)!) {
+				const lineEl = notesEl.createDiv({
+					cls: 'qe-emoji-index-line is-clickable',
+				})
+				lineEl.createSpan({
+					cls: 'qe-emoji-index-line-number',
+					text: `${occurrence.line + 1}`,
+				})
+				lineEl.createSpan({
+					cls: 'qe-emoji-index-context',
+					text: occurrence.context,
+				})
+				lineEl.addEventListener('click', (evt) =>
+					this.reveal(path, occurrence, Keymap.isModEvent(evt))
+				)
+			}
+		}
+	}
+
+	/**
+	 * Open a note and select an emoji occurrence
+	 * @param newLeaf - Open the note in a new tab (Mod+click)
+	 */
+	private async reveal(
+		path: string,
+		occurrence: EmojiOccurrence,
+		newLeaf: PaneType | boolean
+	): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(path)
+		if (!(file instanceof TFile)) return
+
+		const leaf = this.app.workspace.getLeaf(newLeaf)
+		await leaf.openFile(file)
+		if (!(leaf.view instanceof MarkdownView)) return
+
+		const { editor } = leaf.view
+		const from = editor.offsetToPos(occurrence.from)
+		const to = editor.offsetToPos(occurrence.to)
+		editor.setSelection(from, to)
+		editor.scrollIntoView({ from, to }, true)
+		editor.focus()
+	}
+}
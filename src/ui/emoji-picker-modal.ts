@@ -0,0 +1,418 @@
+import { App, Editor, Modal, Notice } from 'obsidian'
+
+import { type Emoji } from '@emoji-mart/data'
+
+import type { SkinSetting } from './settings-tab'
+
+import type QuickEmojiPlugin from '../main'
+import { getEmojiData, getSearchIndex } from '../services/emoji-service'
+import {
+	formatEmoji,
+	getActiveEditor,
+	insertEmoji,
+	setEmojiContent,
+} from '../utils'
+
+// Display labels for the emoji-mart category ids
+const CATEGORY_LABELS: Record<string, string> = {
+	people: 'Smileys & people',
+	nature: 'Animals & nature',
+	foods: 'Food & drink',
+	activity: 'Activity',
+	places: 'Travel & places',
+	objects: 'Objects',
+	symbols: 'Symbols',
+	flags: 'Flags',
+}
+
+// Skin tone choices shown in the header, previewed on the raised hand
+const SKIN_TONE_OPTIONS: Array<{ value: SkinSetting; label: string }> = [
+	{ value: 0, label: '✋ Default' },
+	{ value: 1, label: '✋🏻 Light' },
+	{ value: 2, label: '✋🏼 Medium-light' },
+	{ value: 3, label: '✋🏽 Medium' },
+	{ value: 4, label: '✋🏾 Medium-dark' },
+	{ value: 5, label: '✋🏿 Dark' },
+]
+
+type PickerSection = {
+	title: string
+	emojis: Emoji[]
+}
+
+type PickerCell = {
+	el: HTMLElement
+	emoji: Emoji
+}
+
+/**
+ * Emoji Picker Modal
+ * Searchable grid of all emojis grouped by category, with favorites and
+ * recents at the top, a skin tone selector and keyboard navigation
+ */
+export class EmojiPickerModal extends Modal {
+	plugin: QuickEmojiPlugin
+	private editor: Editor | null
+	private searchInputEl: HTMLInputElement
+	private gridEl: HTMLElement
+	private footerEl: HTMLElement
+	private cells: PickerCell[] = []
+	private selectedIndex = 0
+	private sections: PickerSection[] = []
+	private searchTimer: number | null = null
+
+	/**
+	 * @param onChoose - Called with the chosen emoji instead of inserting it
+	 * at the cursor, e.g. to swap an emoji that is already in the note
+	 */
+	constructor(
+		app: App,
+		plugin: QuickEmojiPlugin,
+		private onChoose?: (emoji: Emoji) => void
+	) {
+		super(app)
+		this.plugin = plugin
+		// Capture the editor now, the modal takes focus once opened
+		this.editor = getActiveEditor(app)
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl, modalEl } = this
+		modalEl.addClass('qe-picker-modal')
+		if (this.onChoose) modalEl.addClass('qe-picker-swap')
+		contentEl.empty()
+
+		// Header: search field and skin tone selector
+		const headerEl = contentEl.createDiv({ cls: 'qe-picker-header' })
+		this.searchInputEl = headerEl.createEl('input', {
+			type: 'text',
+			cls: 'qe-picker-search',
+			placeholder: 'Search emojis…',
+		})
+		this.searchInputEl.addEventListener('input', () => this.onSearch())
+		this.searchInputEl.addEventListener('keydown', (evt) =>
+			this.onKeyDown(evt)
+		)
+
+		const skinSelectEl = headerEl.createEl('select', {
+			cls: 'dropdown qe-picker-skin',
+			attr: { 'aria-label': 'Skin tone' },
+		})
+		for (const option of SKIN_TONE_OPTIONS) {
+			skinSelectEl.createEl('option', {
+				value: String(option.value),
+				text: option.label,
+			})
+		}
+		skinSelectEl.value = String(this.plugin.settings.skin)
+		skinSelectEl.addEventListener('change', async () => {
+			this.plugin.settings.skin = parseInt(
+				skinSelectEl.value
+			) as SkinSetting
+			await this.plugin.saveSettings()
+			this.renderGrid()
+			this.searchInputEl.focus()
+		})
+
+		this.gridEl = contentEl.createDiv({ cls: 'qe-picker-grid' })
+		this.footerEl = contentEl.createDiv({ cls: 'qe-picker-footer' })
+
+		this.searchInputEl.focus()
+		this.sections = await this.getDefaultSections()
+		this.renderGrid()
+	}
+
+	onClose(): void {
+		if (this.searchTimer) {
+			window.clearTimeout(this.searchTimer)
+			this.searchTimer = null
+		}
+		this.cells = []
+		this.sections = []
+		this.contentEl.empty()
+	}
+
+	/**
+	 * Favorite groups, recents, custom emojis and every emoji-mart category
+	 */
+	private async getDefaultSections(): Promise<PickerSection[]> {
+		const sections: PickerSection[] = []
+
+		try {
+			const data = await getEmojiData()
+			const resolve = (id: string): Emoji | null =>
+				this.plugin.customEmojis.get(id) ?? data.emojis[id] ?? null
+			const resolveAll = (ids: string[]) =>
+				ids
+					.map(resolve)
+					.filter((emoji): emoji is Emoji => emoji !== null)
+
+			// Favorites and recents resolve by exact ID, like the suggester
+			const { favoriteGroups } = this.plugin.settings
+			const { emojis: storedEmojis } = await this.plugin.resolveEmojiIds([
+				...favoriteGroups.flatMap((group) => group.emojis),
+				...this.plugin.recentEmojis,
+			])
+			const resolveStored = (ids: string[]) =>
+				ids
+					.map((id) => storedEmojis.get(id))
+					.filter((emoji): emoji is Emoji => emoji !== undefined)
+
+			for (const group of favoriteGroups) {
+				sections.push({
+					title: group.name,
+					emojis: resolveStored(group.emojis),
+				})
+			}
+			sections.push({
+				title: 'Recently used',
+				emojis: resolveStored(this.plugin.recentEmojis),
+			})
+			sections.push({
+				title: 'Custom',
+				emojis: this.plugin.customEmojis.getAll(),
+			})
+
+			for (const category of data.categories) {
+				// emoji-mart adds its own "frequent" category during init
+				if (!CATEGORY_LABELS[category.id]) continue
+				sections.push({
+					title: CATEGORY_LABELS[category.id],
+					emojis: resolveAll(category.emojis),
+				})
+			}
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Quick Emoji: Failed to load emoji data:', error)
+			}
+			new Notice(
+				'Quick Emoji: Could not load emoji data. Please try reloading Obsidian.'
+			)
+		}
+
+		return sections.filter((section) => section.emojis.length > 0)
+	}
+
+	/**
+	 * Debounced search, replacing the sections with a single result list
+	 */
+	private onSearch(): void {
+		if (this.searchTimer) {
+			window.clearTimeout(this.searchTimer)
+		}
+
+		this.searchTimer = window.setTimeout(async () => {
+			this.searchTimer = null
+			const query = this.searchInputEl.value.trim()
+
+			if (!query) {
+				this.sections = await this.getDefaultSections()
+			} else {
+				let results: Emoji[] = []
+				try {
+					const searchIndex = await getSearchIndex()
+					results = (await searchIndex?.search(query)) ?? []
+				} catch (error) {
+					if (process.env.NODE_ENV === 'development') {
+						console.error(
+							'Quick Emoji: Error searching emojis:',
+							error
+						)
+					}
+				}
+
+				// Bail out if the query changed while searching
+				if (query !== this.searchInputEl.value.trim()) return
+
+				this.sections = [
+					{
+						title: 'Search results',
+						emojis: [
+							...this.plugin.customEmojis.search(query),
+							...results,
+						],
+					},
+				]
+			}
+
+			this.selectedIndex = 0
+			this.renderGrid()
+		}, 150)
+	}
+
+	private renderGrid(): void {
+		this.gridEl.empty()
+		this.cells = []
+
+		for (const section of this.sections) {
+			this.gridEl.createDiv({
+				cls: 'qe-picker-section-title',
+				text: section.title,
+			})
+			const sectionEl = this.gridEl.createDiv({
+				cls: 'qe-picker-section',
+			})
+
+			for (const emoji of section.emojis) {
+				const index = this.cells.length
+				const cellEl = sectionEl.createDiv({
+					cls: 'qe-picker-emoji',
+					attr: { 'aria-label': emoji.name },
+				})
+				setEmojiContent(cellEl, emoji, this.plugin.settings.skin)
+
+				cellEl.addEventListener('mouseenter', () =>
+					this.setSelected(index, false)
+				)
+				cellEl.addEventListener('click', () => this.pick(emoji))
+
+				this.cells.push({ el: cellEl, emoji })
+			}
+		}
+
+		if (this.cells.length === 0) {
+			this.gridEl.createDiv({
+				cls: 'qe-picker-empty',
+				text: 'No emojis found.',
+			})
+		}
+
+		this.setSelected(
+			Math.min(this.selectedIndex, Math.max(this.cells.length - 1, 0)),
+			false
+		)
+	}
+
+	private setSelected(index: number, scroll = true): void {
+		this.cells[this.selectedIndex]?.el.removeClass('is-selected')
+		this.selectedIndex = index
+
+		const cell = this.cells[index]
+		this.footerEl.empty()
+		if (!cell) return
+
+		cell.el.addClass('is-selected')
+		if (scroll) {
+			cell.el.scrollIntoView({ block: 'nearest' })
+		}
+
+		// Preview the selected emoji in the footer
+		const previewEl = this.footerEl.createSpan({
+			cls: 'qe-picker-preview',
+		})
+		setEmojiContent(previewEl, cell.emoji, this.plugin.settings.skin)
+		this.footerEl.createSpan({
+			cls: 'qe-picker-name',
+			text: cell.emoji.name,
+		})
+		this.footerEl.createSpan({
+			cls: 'qe-picker-shortcode',
+			text: formatEmoji(
+				cell.emoji,
+				'shortcode',
+				this.plugin.settings.skin,
+				this.plugin.settings.insertionDialect
+			),
+		})
+	}
+
+	private onKeyDown(evt: KeyboardEvent): void {
+		if (this.cells.length === 0) return
+
+		switch (evt.key) {
+			case 'ArrowRight':
+				this.setSelected(
+					Math.min(this.selectedIndex + 1, this.cells.length - 1)
+				)
+				break
+			case 'ArrowLeft':
+				this.setSelected(Math.max(this.selectedIndex - 1, 0))
+				break
+			case 'ArrowDown':
+				this.setSelected(this.findVerticalNeighbor(1))
+				break
+			case 'ArrowUp':
+				this.setSelected(this.findVerticalNeighbor(-1))
+				break
+			case 'Home':
+				if (!evt.ctrlKey && !evt.metaKey) return
+				this.setSelected(0)
+				break
+			case 'End':
+				if (!evt.ctrlKey && !evt.metaKey) return
+				this.setSelected(this.cells.length - 1)
+				break
+			case 'Enter':
+				this.pick(this.cells[this.selectedIndex].emoji)
+				break
+			default:
+				return
+		}
+
+		evt.preventDefault()
+	}
+
+	/**
+	 * Find the cell in the next or previous visual row that is horizontally
+	 * closest to the selected one. Works across section boundaries since
+	 * rows are derived from the rendered layout.
+	 * @param direction - 1 for down, -1 for up
+	 */
+	private findVerticalNeighbor(direction: 1 | -1): number {
+		const current = this.cells[this.selectedIndex].el
+		const currentRect = current.getBoundingClientRect()
+
+		let rowTop: number | null = null
+		let best = this.selectedIndex
+		let bestDistance = Infinity
+
+		for (
+			let i = this.selectedIndex + direction;
+			i >= 0 && i < this.cells.length;
+			i += direction
+		) {
+			const rect = this.cells[i].el.getBoundingClientRect()
+			if (rowTop === null) {
+				if (rect.top === currentRect.top) continue
+				rowTop = rect.top
+			} else if (rect.top !== rowTop) {
+				break
+			}
+
+			const distance = Math.abs(rect.left - currentRect.left)
+			if (distance < bestDistance) {
+				best = i
+				bestDistance = distance
+			}
+		}
+
+		return best
+	}
+
+	private pick(emoji: Emoji): void {
+		if (this.onChoose) {
+			this.plugin.saveRecentEmoji(emoji)
+			this.close()
+			this.onChoose(emoji)
+			return
+		}
+
+		const editor = this.editor ?? getActiveEditor(this.app)
+		if (!editor) {
+			new Notice('Quick Emoji: Open a note to insert an emoji.')
+			return
+		}
+
+		this.plugin.saveRecentEmoji(emoji)
+		const text = insertEmoji(
+			editor,
+			emoji,
+			this.plugin.settings.insertionFormat,
+			this.plugin.settings.skin,
+			this.plugin.settings.insertionDialect
+		)
+		this.plugin.emitEmojiInserted(emoji, text, 'picker')
+		this.close()
+		editor.focus()
+	}
+}
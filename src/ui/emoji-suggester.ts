@@ -4,14 +4,32 @@ import {
 	EditorSuggest,
 	EditorSuggestContext,
 	EditorSuggestTriggerInfo,
+	Keymap,
+	Notice,
+	Platform,
 	TFile,
 } from 'obsidian'
 
 import { type Emoji } from '@emoji-mart/data'
 
+import type {
+	InsertionFormat,
+	SkinSetting,
+	TriggerPrecedingChars,
+} from './settings-tab'
+
 import type QuickEmojiPlugin from '../main'
+import { getEmojiMap } from '../rendering/emoji-renderer'
+import { getLocalizedName } from '../services/emoji-i18n'
 import { getSearchIndex } from '../services/emoji-service'
-import { getActiveEditor, getEmojiWithSkin, insertEmoji } from '../utils'
+import {
+	formatEmoji,
+	getActiveEditor,
+	getCursorContexts,
+	insertEmoji,
+	isCustomEmoji,
+	setEmojiContent,
+} from '../utils'
 
 // Emoji category definitions
 const EMOJI_CATEGORIES = [
@@ -29,16 +47,42 @@ const EMOJI_CATEGORIES = [
 	'travel',
 ]
 
-// Regex for checking trailing whitespace (extracted to avoid recompilation)
-const TRAILING_WHITESPACE_REGEX = /\s$/
+// Characters allowed in a query: the shortcode character set plus any
+// letters, so localized searches like :herz or :ハート work. A query can't
+// start with '-', so text like ' :-' isn't taken for an emoji like :-1:.
+const QUERY_FIRST_CHAR = '[\\p{L}\\p{N}_+]'
+const QUERY_CHARS = '[\\p{L}\\p{N}\\p{M}_+-]'
+
+// Characters allowed directly before the trigger, per policy (extracted to avoid recompilation)
+const PRECEDING_CHAR_REGEX: Record<TriggerPrecedingChars, RegExp> = {
+	whitespace: /\s/,
+	brackets: /[\s([{<"'“‘]/,
+	punctuation: /[^\p{L}\p{N}]/u,
+	any: /[^]/,
+}
+
+// Escape a string for literal use in a regular expression
+function escapeRegExp(str: string): string {
+	return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
 
 type EmojiSuggestion = {
 	emoji: Emoji
 	isRecent: boolean
 	isFavorite: boolean
 	isSearchResult: boolean
+	alias?: string // User alias that matched the query, if any
+	groupLabel?: string // Favorite group name, set on the first emoji of each group
 }
 
+type AliasMatch = {
+	alias: string
+	emoji: Emoji
+}
+
+// Raised hand in each skin tone, shown on the skin tone button
+const SKIN_TONE_HANDS = ['✋', '✋🏻', '✋🏼', '✋🏽', '✋🏾', '✋🏿']
+
 // Function to trigger an inline emoji search using the lazy-loaded SearchIndex
 async function searchEmojis(query: string): Promise<Emoji[]> {
 	try {
@@ -61,10 +105,59 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 	plugin: QuickEmojiPlugin
 	private debounceTimer: number | null = null
 	private lastSearchPromise: Promise<EmojiSuggestion[]> | null = null
+	// Rendered item of each suggestion, for updating the skin tone strip and
+	// finding the highlighted one
+	private suggestionEls = new Map<EmojiSuggestion, HTMLElement>()
 
 	constructor(plugin: QuickEmojiPlugin) {
 		super(plugin.app)
 		this.plugin = plugin
+
+		// Tab opens the skin tone strip for the highlighted emoji, then
+		// cycles through its tones (Shift+Tab goes backwards). Emojis
+		// without skin tones leave Tab to the editor.
+		this.scope.register([], 'Tab', (evt) => {
+			if (!this.cycleSkinTone(1)) return
+			evt.preventDefault()
+			return false
+		})
+		this.scope.register(['Shift'], 'Tab', (evt) => {
+			if (!this.cycleSkinTone(-1)) return
+			evt.preventDefault()
+			return false
+		})
+
+		// Enter with a modifier runs an alternate action, like a click with
+		// the same modifier
+		for (const modifier of ['Shift', 'Mod', 'Alt'] as const) {
+			this.scope.register([modifier], 'Enter', (evt) => {
+				const suggestion = this.getHighlightedSuggestion()
+				if (!suggestion) return
+				evt.preventDefault()
+				this.selectSuggestion(suggestion, evt)
+				return false
+			})
+		}
+	}
+
+	/**
+	 * Show the keyboard actions in the footer, naming the format that
+	 * Shift+Enter inserts with the current settings
+	 */
+	open(): void {
+		const mod = Platform.isMacOS ? '⌘' : 'ctrl'
+		const alt = Platform.isMacOS ? '⌥' : 'alt'
+		this.setInstructions([
+			{ command: '↵', purpose: 'to insert' },
+			{
+				command: 'shift ↵',
+				purpose: `to insert as ${this.getOppositeFormat() === 'unicode' ? 'emoji' : 'shortcode'}`,
+			},
+			{ command: `${mod} ↵`, purpose: 'to toggle favorite' },
+			{ command: `${alt} ↵`, purpose: 'to copy' },
+			{ command: 'tab', purpose: 'to choose skin tone' },
+		])
+		super.open()
 	}
 
 	/**
@@ -76,6 +169,7 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 			this.debounceTimer = null
 		}
 		this.lastSearchPromise = null
+		this.suggestionEls.clear()
 		super.close()
 	}
 
@@ -86,39 +180,55 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 	): EditorSuggestTriggerInfo | null {
 		const line = editor.getLine(cursor.line)
 		const subString = line.substring(0, cursor.ch)
+		const {
+			triggerString,
+			minQueryLength,
+			triggerPrecedingChars,
+			triggerExcludedContexts,
+		} = this.plugin.settings
+		const trigger = triggerString || ':'
+
+		// Find the last trigger before cursor, followed only by shortcode characters
+		const triggerMatch = subString.match(
+			new RegExp(
+				`${escapeRegExp(trigger)}((?:${QUERY_FIRST_CHAR}${QUERY_CHARS}*)?)$`,
+				'u'
+			)
+		)
+		if (!triggerMatch) return null
 
-		// Find the last colon before cursor - match even if it's just a single colon
-		const colonMatch = subString.match(/:([\w]*)$/)
-		if (!colonMatch) return null
-
-		const colonIndex = colonMatch.index || 0
-		const queryAfterColon = colonMatch[1] || ''
-
-		// Rule 1: Only show if there's text after colon (ignoring spaces)
-		// If no text after colon yet, don't trigger
-		if (queryAfterColon.length === 0) return null
+		const triggerIndex = triggerMatch.index || 0
+		const queryAfterTrigger = triggerMatch[1] || ''
 
-		// Rule 2: Only show if colon is the "first word", not between words
-		// Check what comes before the colon
-		const beforeColon = subString.substring(0, colonIndex)
+		// Rule 1: Only show once enough text follows the trigger
+		if (queryAfterTrigger.length < minQueryLength) return null
 
-		// If there's any non-whitespace character immediately before the colon,
-		// then the colon is "between" words and should not trigger
+		// Rule 2: Only show if the character before the trigger is allowed,
+		// so triggers in the middle of words (or times like 10:30) don't fire
+		const charBefore = subString.charAt(triggerIndex - 1)
 		if (
-			beforeColon.length > 0 &&
-			!TRAILING_WHITESPACE_REGEX.test(beforeColon)
+			charBefore !== '' &&
+			!PRECEDING_CHAR_REGEX[triggerPrecedingChars].test(charBefore)
 		) {
 			return null
 		}
 
+		// Rule 3: Respect per-context opt-outs
+		if (triggerExcludedContexts.length > 0) {
+			const contexts = getCursorContexts(editor, cursor)
+			if (triggerExcludedContexts.some((c) => contexts.has(c))) {
+				return null
+			}
+		}
+
 		// Trigger the emoji suggester
 		return {
 			start: {
 				line: cursor.line,
-				ch: colonIndex,
+				ch: triggerIndex,
 			},
 			end: cursor,
-			query: queryAfterColon,
+			query: queryAfterTrigger,
 		}
 	}
 
@@ -129,90 +239,73 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 	private async performSearch(query: string): Promise<EmojiSuggestion[]> {
 		let results: EmojiSuggestion[] = []
 
-		// Add favorite emojis first (always shown at top)
-		if (this.plugin.settings.favorites.length > 0) {
-			const searchIndex = await getSearchIndex()
-			if (searchIndex) {
-				for (const favoriteId of this.plugin.settings.favorites) {
-					try {
-						// Search for the specific favorite emoji
-						const favoriteResults =
-							await searchIndex.search(favoriteId)
-						if (favoriteResults && favoriteResults.length > 0) {
-							// Find exact match by ID if possible, otherwise take first result
-							const exactMatch = favoriteResults.find(
-								(emoji: Emoji) =>
-									emoji.id === favoriteId ||
-									emoji.name === favoriteId
-							)
-							const emoji = exactMatch || favoriteResults[0]
-							results.push({
-								emoji,
-								isRecent: this.plugin.recentEmojis.some(
-									(recentId) => recentId === emoji.id
-								),
-								isFavorite: true,
-								isSearchResult: false,
-							})
-						}
-					} catch (error) {
-						if (process.env.NODE_ENV === 'development') {
-							console.error(
-								'Failed to load favorite emoji:',
-								favoriteId,
-								error
-							)
-						}
-					}
-				}
+		// Resolve favorites and recents by exact ID, never by fuzzy search
+		const favoriteGroups = this.plugin.settings.favoriteGroups.filter(
+			(group) => group.emojis.length > 0
+		)
+		const recentIds = query ? [] : this.plugin.recentEmojis
+		const { emojis: storedEmojis } = await this.plugin.resolveEmojiIds([
+			...favoriteGroups.flatMap((group) => group.emojis),
+			...recentIds,
+		])
+
+		// Add favorite emojis first (always shown at top), one labeled
+		// section per group
+		for (const group of favoriteGroups) {
+			// Only the first resolved emoji of a group carries the label
+			let groupLabel: string | undefined = group.name
+			for (const favoriteId of group.emojis) {
+				const emoji = storedEmojis.get(favoriteId)
+				if (!emoji) continue
+				results.push({
+					emoji,
+					isRecent: this.plugin.recentEmojis.some(
+						(recentId) => recentId === emoji.id
+					),
+					isFavorite: true,
+					isSearchResult: false,
+					groupLabel,
+				})
+				groupLabel = undefined
 			}
 		}
 
 		// Add recent emojis only if there's no search query (and they're not already favorites)
-		if (!query && this.plugin.recentEmojis.length > 0) {
-			for (const emojiId of this.plugin.recentEmojis) {
-				// Don't duplicate favorites in recent section
-				if (!this.plugin.settings.favorites.includes(emojiId)) {
-					try {
-						const searchIndex = await getSearchIndex()
-						// Look up the emoji by ID using the same searchIndex
-						const emojiResults = await searchIndex.search(emojiId)
-						if (emojiResults && emojiResults.length > 0) {
-							// Find exact match by ID
-							const exactMatch = emojiResults.find(
-								(emoji: Emoji) =>
-									emoji.id === emojiId ||
-									emoji.name === emojiId
-							)
-							const emoji = exactMatch || emojiResults[0]
-
-							results.push({
-								emoji,
-								isRecent: true,
-								isFavorite: false,
-								isSearchResult: false,
-							})
-						}
-					} catch (error) {
-						if (process.env.NODE_ENV === 'development') {
-							console.error(
-								'Failed to load recent emoji:',
-								emojiId,
-								error
-							)
-						}
-					}
-				}
-			}
+		for (const emojiId of recentIds) {
+			// Don't duplicate favorites in recent section
+			if (this.plugin.isFavorite(emojiId)) continue
+			const emoji = storedEmojis.get(emojiId)
+			if (!emoji) continue
+			results.push({
+				emoji,
+				isRecent: true,
+				isFavorite: false,
+				isSearchResult: false,
+			})
 		}
 
 		try {
 			// Get emoji results - use appropriate search based on query
 			let searchResults: Emoji[] = []
+			let aliasMatches: AliasMatch[] = []
 
 			if (query) {
-				// If user has typed something, do a specific search
-				searchResults = await searchEmojis(query)
+				// If user has typed something, do a specific search.
+				// Custom emojis and alias matches are listed ahead of built-in matches.
+				aliasMatches = await this.searchAliases(query)
+				const matches = [
+					...this.plugin.customEmojis.search(query),
+					...aliasMatches.map((match) => match.emoji),
+					...(await searchEmojis(query)),
+				]
+					// Filter emojis reached through both an alias and its id
+					.filter(
+						(emoji, index, self) =>
+							index === self.findIndex((t) => t.id === emoji.id)
+					)
+
+				// Frequently and recently used emojis rank higher
+				searchResults = this.boostByUsage(matches)
 			} else {
 				// When user has only typed ":", get popular emojis
 				const searchIndex = await getSearchIndex()
@@ -235,7 +328,10 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 							})
 						)
 
-						searchResults = allResults
+						searchResults = [
+							...this.plugin.customEmojis.getAll(),
+							...allResults,
+						]
 							// Filter duplicate emojis
 							.filter(
 								(emoji, index, self) =>
@@ -259,10 +355,11 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 					isRecent: this.plugin.recentEmojis.some(
 						(recentId) => recentId === emoji.id
 					),
-					isFavorite: this.plugin.settings.favorites.includes(
-						emoji.id
-					),
+					isFavorite: this.plugin.isFavorite(emoji.id),
 					isSearchResult: true,
+					alias: aliasMatches.find(
+						(match) => match.emoji.id === emoji.id
+					)?.alias,
 				})
 			)
 
@@ -276,6 +373,50 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 		return results
 	}
 
+	/**
+	 * Reorder search results by usage. Each result's position is divided by
+	 * (1 + its usage score), so heavily used emojis move well ahead while
+	 * unused emojis keep their relevance order.
+	 */
+	private boostByUsage(emojis: Emoji[]): Emoji[] {
+		const now = Date.now()
+		return emojis
+			.map((emoji, index) => ({
+				emoji,
+				rank: index / (1 + this.plugin.emojiUsage.score(emoji.id, now)),
+			}))
+			.sort((a, b) => a.rank - b.rank)
+			.map(({ emoji }) => emoji)
+	}
+
+	/**
+	 * Find user-defined aliases containing the query, prefix matches first.
+	 * Aliases pointing at unknown emoji IDs are skipped.
+	 */
+	private async searchAliases(query: string): Promise<AliasMatch[]> {
+		const needle = query.toLowerCase()
+		const matches = Object.entries(this.plugin.settings.aliases)
+			.filter(([alias]) => alias.includes(needle))
+			.sort(
+				([a], [b]) =>
+					Number(!a.startsWith(needle)) -
+					Number(!b.startsWith(needle))
+			)
+		if (matches.length === 0) return []
+
+		try {
+			const emojiMap = await getEmojiMap()
+			return matches.flatMap(([alias, emojiId]) =>
+				emojiMap[emojiId] ? [{ alias, emoji: emojiMap[emojiId] }] : []
+			)
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Quick Emoji: Failed to search aliases:', error)
+			}
+			return []
+		}
+	}
+
 	async getSuggestions(
 		context: EditorSuggestContext
 	): Promise<EmojiSuggestion[]> {
@@ -317,6 +458,15 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 
 	renderSuggestion(suggestion: EmojiSuggestion, el: HTMLElement): void {
 		el.empty()
+		this.suggestionEls.set(suggestion, el)
+
+		// Label the start of each favorite group
+		if (suggestion.groupLabel) {
+			el.createDiv({
+				cls: 'emoji-group-label',
+				text: suggestion.groupLabel,
+			})
+		}
 
 		const suggestionEl = el.createDiv({ cls: 'emoji-suggestion' })
 		const { emoji, isRecent, isFavorite, isSearchResult } = suggestion
@@ -329,19 +479,44 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 		// Create emoji icon - use the native emoji directly
 		const emojiEl = suggestionEl.createDiv({ cls: 'emoji-icon' })
 
-		// Get emoji with proper skin tone
-		const emojiChar = getEmojiWithSkin(emoji, this.plugin.settings.skin)
-
-		// Set the emoji text
-		emojiEl.setText(emojiChar)
+		// Set the emoji text (or image for custom emojis) with proper skin tone
+		setEmojiContent(emojiEl, emoji, this.plugin.settings.skin)
 
 		// Create description
+		// Show the name in the first search language, if one is chosen
 		const descEl = suggestionEl.createDiv({ cls: 'emoji-description' })
-		descEl.setText(emoji.name)
+		const displayLanguage = this.plugin.settings.searchLanguages[0]
+		descEl.setText(
+			(displayLanguage && getLocalizedName(emoji.id, displayLanguage)) ||
+				emoji.name
+		)
+
+		// Show which alias matched the query
+		if (suggestion.alias) {
+			descEl.createSpan({
+				cls: 'emoji-alias',
+				text: `:${suggestion.alias}:`,
+			})
+		}
 
 		// Create icons container
 		const iconsEl = suggestionEl.createDiv({ cls: 'emoji-icons' })
 
+		// Skin tone button for emojis with variants, shown on hover
+		if (this.hasSkinTones(emoji)) {
+			const skinEl = iconsEl.createDiv({
+				cls: 'emoji-skin-button',
+				title: 'Choose skin tone (Tab)',
+				text: SKIN_TONE_HANDS[this.getSkinTone(emoji)],
+			})
+			skinEl.addEventListener('mousedown', (e) => e.preventDefault())
+			skinEl.addEventListener('click', (e) => {
+				e.preventDefault()
+				e.stopPropagation()
+				this.toggleSkinToneStrip(suggestion)
+			})
+		}
+
 		// For recent emojis that aren't favorited, show both recent indicator and favorite star
 		// For all others, show just the appropriate icon
 		if (isRecent && !isFavorite && !isSearchResult) {
@@ -364,15 +539,9 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 				e.stopPropagation()
 
 				// Check if already favorited to prevent duplicates
-				if (!this.plugin.settings.favorites.includes(emoji.id)) {
-					// Add to favorites
-					this.plugin.settings.favorites = [
-						...this.plugin.settings.favorites,
-						emoji.id,
-					]
-
-					// Save settings
-					await this.plugin.saveSettings()
+				if (!this.plugin.isFavorite(emoji.id)) {
+					// Add to the first favorite group and save settings
+					await this.plugin.toggleFavorite(emoji.id)
 
 					// Update the visual state
 					starEl.setText('★')
@@ -396,61 +565,209 @@ export class EmojiSuggester extends EditorSuggest<EmojiSuggestion> {
 				e.preventDefault()
 				e.stopPropagation()
 
-				const favorites = this.plugin.settings.favorites
-				const isCurrentlyFavorited = favorites.includes(emoji.id)
+				await this.toggleFavorite(suggestion)
+			})
+		}
+	}
 
-				if (isCurrentlyFavorited) {
-					// Remove from favorites
-					this.plugin.settings.favorites = favorites.filter(
-						(id) => id !== emoji.id
-					)
-				} else {
-					// Add to favorites (check for duplicates)
-					if (!favorites.includes(emoji.id)) {
-						this.plugin.settings.favorites = [
-							...favorites,
-							emoji.id,
-						]
-					}
-				}
+	/**
+	 * Add a suggestion's emoji to the first favorite group, or remove it
+	 * from all groups, and update its star
+	 */
+	private async toggleFavorite(suggestion: EmojiSuggestion): Promise<void> {
+		const isFavorite = await this.plugin.toggleFavorite(suggestion.emoji.id)
+
+		const el = this.suggestionEls.get(suggestion)
+		const starEl = el?.querySelector<HTMLElement>('.emoji-star')
+		if (starEl) {
+			starEl.setText(isFavorite ? '★' : '☆')
+			starEl.title = isFavorite
+				? 'Remove from favorites'
+				: 'Add to favorites'
+			starEl.toggleClass('favorited', isFavorite)
+		}
+		el?.querySelector('.emoji-suggestion')?.toggleClass(
+			'favorite',
+			isFavorite
+		)
+	}
 
-				// Save settings
-				await this.plugin.saveSettings()
+	/**
+	 * The insertion format Shift+Enter uses: the other one than configured
+	 */
+	private getOppositeFormat(): InsertionFormat {
+		return this.plugin.settings.insertionFormat === 'unicode'
+			? 'shortcode'
+			: 'unicode'
+	}
 
-				// Update the visual state based on current state
-				const newIsFavorited = this.plugin.settings.favorites.includes(
-					emoji.id
-				)
-				starEl.setText(newIsFavorited ? '★' : '☆')
-				starEl.title = newIsFavorited
-					? 'Remove from favorites'
-					: 'Add to favorites'
-				starEl.toggleClass('favorited', newIsFavorited)
-				suggestionEl.toggleClass('favorite', newIsFavorited)
-			})
+	/**
+	 * Copy a suggestion's emoji to the clipboard instead of inserting it
+	 */
+	private async copyEmoji(emoji: Emoji): Promise<void> {
+		const text = formatEmoji(
+			emoji,
+			'unicode',
+			this.plugin.settings.skin,
+			this.plugin.settings.insertionDialect
+		)
+		try {
+			await navigator.clipboard.writeText(text)
+			this.plugin.saveRecentEmoji(emoji)
+			new Notice(`Quick Emoji: Copied ${text} to the clipboard.`)
+		} catch (error) {
+			if (process.env.NODE_ENV === 'development') {
+				console.error('Failed to copy emoji', error)
+			}
+			new Notice('Quick Emoji: Could not copy the emoji.')
+		}
+	}
+
+	/**
+	 * Check if an emoji has skin tone variants
+	 */
+	private hasSkinTones(emoji: Emoji): boolean {
+		return !isCustomEmoji(emoji) && (emoji.skins?.length ?? 0) > 1
+	}
+
+	/**
+	 * Skin tone used for an emoji: its remembered tone or the default
+	 */
+	private getSkinTone(emoji: Emoji): SkinSetting {
+		const { skinTones, skin } = this.plugin.settings
+		return Object.prototype.hasOwnProperty.call(skinTones, emoji.id)
+			? skinTones[emoji.id]
+			: skin
+	}
+
+	/**
+	 * The suggestion highlighted with the keyboard or mouse, which Obsidian
+	 * marks with the is-selected class
+	 */
+	private getHighlightedSuggestion(): EmojiSuggestion | null {
+		for (const [suggestion, el] of this.suggestionEls) {
+			if (el.isConnected && el.hasClass('is-selected')) return suggestion
 		}
+		return null
+	}
+
+	/**
+	 * Open the skin tone strip of the highlighted emoji, or step to the
+	 * next tone if it is already open
+	 * @param direction - 1 for the next tone, -1 for the previous one
+	 * @returns Whether there was an emoji with skin tones to act on
+	 */
+	private cycleSkinTone(direction: 1 | -1): boolean {
+		const suggestion = this.getHighlightedSuggestion()
+		if (!suggestion || !this.hasSkinTones(suggestion.emoji)) return false
+
+		const el = this.suggestionEls.get(suggestion)
+		if (!el?.querySelector('.emoji-skin-strip')) {
+			this.toggleSkinToneStrip(suggestion)
+			return true
+		}
+
+		const count = suggestion.emoji.skins.length
+		const tone =
+			(this.getSkinTone(suggestion.emoji) + direction + count) % count
+		this.chooseSkinTone(suggestion, tone as SkinSetting)
+		return true
+	}
+
+	/**
+	 * Show or hide the row of skin tone variants below a suggestion
+	 */
+	private toggleSkinToneStrip(suggestion: EmojiSuggestion): void {
+		const el = this.suggestionEls.get(suggestion)
+		if (!el) return
+
+		const existing = el.querySelector('.emoji-skin-strip')
+		if (existing) {
+			existing.remove()
+			return
+		}
+
+		const stripEl = el.createDiv({ cls: 'emoji-skin-strip' })
+		const currentTone = this.getSkinTone(suggestion.emoji)
+		suggestion.emoji.skins.forEach((skin, tone) => {
+			const variantEl = stripEl.createSpan({
+				cls: 'emoji-skin-variant',
+				text: skin.native,
+			})
+			variantEl.toggleClass('is-active', tone === currentTone)
+			// Keep the editor focused and the suggestion unselected
+			variantEl.addEventListener('mousedown', (e) => e.preventDefault())
+			variantEl.addEventListener('click', async (e) => {
+				e.preventDefault()
+				e.stopPropagation()
+				await this.chooseSkinTone(suggestion, tone as SkinSetting)
+			})
+		})
+	}
+
+	/**
+	 * Remember a skin tone for a suggestion's emoji and update its item
+	 */
+	private async chooseSkinTone(
+		suggestion: EmojiSuggestion,
+		tone: SkinSetting
+	): Promise<void> {
+		const { emoji } = suggestion
+		await this.plugin.setSkinTone(emoji.id, tone)
+
+		const el = this.suggestionEls.get(suggestion)
+		if (!el) return
+
+		const iconEl = el.querySelector<HTMLElement>('.emoji-icon')
+		if (iconEl) setEmojiContent(iconEl, emoji, this.plugin.settings.skin)
+		el.querySelector('.emoji-skin-button')?.setText(SKIN_TONE_HANDS[tone])
+		el.querySelectorAll('.emoji-skin-variant').forEach((variantEl, index) =>
+			variantEl.toggleClass('is-active', index === tone)
+		)
 	}
 
 	selectSuggestion(
 		suggestion: EmojiSuggestion,
-		_evt: MouseEvent | KeyboardEvent
+		evt: MouseEvent | KeyboardEvent
 	): void {
+		const { emoji } = suggestion
+
+		// Mod toggles the favorite and keeps the suggester open
+		if (Keymap.isModifier(evt, 'Mod')) {
+			this.toggleFavorite(suggestion)
+			return
+		}
+
+		// Alt copies instead of inserting, removing the typed query
+		if (evt.altKey) {
+			if (this.context) {
+				const { editor, start, end } = this.context
+				editor.replaceRange('', start, end)
+			}
+			this.copyEmoji(emoji)
+			this.close()
+			return
+		}
+
 		// Get the editor
 		const editor = getActiveEditor(this.app)
 		if (!editor) return
 
-		const { emoji } = suggestion
-
 		// Always save in recents when selecting an emoji
 		this.plugin.saveRecentEmoji(emoji)
 
-		// Use the centralized insertion helper with user's preferred format
-		insertEmoji(
+		// Use the centralized insertion helper with user's preferred format,
+		// or the other format with Shift
+		const text = insertEmoji(
 			editor,
 			emoji,
-			this.plugin.settings.insertionFormat,
+			evt.shiftKey
+				? this.getOppositeFormat()
+				: this.plugin.settings.insertionFormat,
 			this.plugin.settings.skin,
+			this.plugin.settings.insertionDialect,
 			this.context!
 		)
+		this.plugin.emitEmojiInserted(emoji, text, 'suggester')
 	}
 }
@@ -0,0 +1,88 @@
+import { EditorView } from '@codemirror/view'
+
+import type QuickEmojiPlugin from '../main'
+import { getProcessableLines } from '../rendering/emoji-renderer'
+import { formatEmoji } from '../utils'
+
+/**
+ * Characters that end a word and trigger a replacement
+ */
+const BOUNDARY_REGEX = /^[\s.,!?]$/
+
+/**
+ * Emoticon Replacer
+ * Turns emoticons like :) or <3 into emojis once a word boundary is typed
+ */
+export class EmoticonReplacer {
+	constructor(private plugin: QuickEmojiPlugin) {}
+
+	/**
+	 * Create the CodeMirror input handler extension
+	 * @returns The CodeMirror extension
+	 */
+	createExtension() {
+		return EditorView.inputHandler.of((view, from, to, text) => {
+			if (!this.plugin.settings.emoticonReplacement) return false
+			if (view.composing || from !== to || !BOUNDARY_REGEX.test(text)) {
+				return false
+			}
+			if (view.state.selection.ranges.length > 1) return false
+
+			const line = view.state.doc.lineAt(from)
+			const textBefore = line.text.slice(0, from - line.from)
+			const match = this.plugin.emoticons.match(textBefore)
+			if (!match || this.isInCodeOrMath(view, line.number, textBefore)) {
+				return false
+			}
+
+			const replacement = formatEmoji(
+				match.emoji,
+				this.plugin.settings.insertionFormat,
+				this.plugin.settings.skin,
+				this.plugin.settings.insertionDialect
+			)
+
+			// Type the boundary character as usual, so it joins the
+			// surrounding typing in the undo history
+			view.dispatch({
+				changes: { from, to, insert: text },
+				selection: { anchor: from + text.length },
+				userEvent: 'input.type',
+			})
+
+			// Replace the emoticon in a separate, non-joinable history event,
+			// so a single undo brings the typed emoticon back
+			view.dispatch({
+				changes: {
+					from: line.from + match.from,
+					to: from,
+					insert: replacement,
+				},
+				userEvent: 'input.emoticon',
+			})
+			this.plugin.emitEmojiInserted(match.emoji, replacement, 'emoticon')
+
+			return true
+		})
+	}
+
+	/**
+	 * Check whether the cursor is in code or math, using the same detection
+	 * as whole-note processing plus unclosed inline code or math before it
+	 */
+	private isInCodeOrMath(
+		view: EditorView,
+		lineNumber: number,
+		textBefore: string
+	): boolean {
+		// Lines in frontmatter, code or math blocks are left out entirely
+		const lines = getProcessableLines(
+			view.state.doc.sliceString(0, view.state.doc.line(lineNumber).to)
+		)
+		if (lines[lines.length - 1]?.line !== lineNumber - 1) return true
+
+		const backticks = (textBefore.match(/`/g) || []).length
+		const dollars = (textBefore.match(/\$/g) || []).length
+		return backticks % 2 === 1 || dollars % 2 === 1
+	}
+}
@@ -1,26 +1,101 @@
-import { App, PluginSettingTab, Setting } from 'obsidian'
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian'
 
 import type { Emoji } from '@emoji-mart/data'
 
 import type QuickEmojiPlugin from '../main'
-import { getSearchIndex } from '../services/emoji-service'
-import { getActiveEditor, getEmojiWithSkin, insertEmoji } from '../utils'
+import { getEmojiMap, lookupEmoji } from '../rendering/emoji-renderer'
+import { SEARCH_LANGUAGES } from '../services/emoji-i18n'
+import { setSearchLanguages } from '../services/emoji-service'
+import { SHORTCODE_DIALECTS } from '../services/shortcode-dialects'
+import type { EmojiUsageData } from '../storage/emoji-usage'
+import {
+	type FavoriteGroup,
+	getFavoriteIds,
+	moveFavorite,
+	removeFavorite,
+} from '../storage/favorites'
+import {
+	getActiveEditor,
+	getEmojiWithSkin,
+	insertEmoji,
+	sanitizeShortcode,
+	setEmojiContent,
+	setEmojiSkinTones,
+} from '../utils'
 
 export type SkinSetting = 0 | 1 | 2 | 3 | 4 | 5
 export type InsertionFormat = 'unicode' | 'shortcode'
+export type TriggerPrecedingChars =
+	'whitespace' | 'brackets' | 'punctuation' | 'any'
+export type SuggesterContext = 'heading' | 'table' | 'frontmatter' | 'code'
+export type ShortcodeDialect = 'emoji-mart' | 'github' | 'slack' | 'discord'
+
+/**
+ * Current version of the settings schema. Bump it together with a new
+ * migration step in storage/settings-migration.ts whenever stored settings
+ * change shape.
+ */
+export const SETTINGS_VERSION = 1
 
 export interface QuickEmojiSettings {
+	schemaVersion: number // Version of the stored settings schema
 	skin: SkinSetting
+	skinTones: Record<string, SkinSetting> // Skin tone remembered per emoji ID, overrides skin
 	recentCount: number
-	favorites: string[] // Array of emoji IDs/shortcodes that are favorited
+	syncRecentEmojis: boolean // Store usage history in plugin data instead of on this device
+	emojiUsage: EmojiUsageData // Usage history, only used when syncRecentEmojis is on
+	favoriteGroups: FavoriteGroup[] // Named groups of favorited emoji IDs, in display order
 	insertionFormat: InsertionFormat // How emojis are inserted into the editor
+	insertionDialect: ShortcodeDialect // Shortcode dialect written in shortcode format
+	shortcodeDialects: ShortcodeDialect[] // Extra dialects resolved when rendering
+	customEmojiFolder: string // Vault folder scanned for custom image emojis ('' disables)
+	aliases: Record<string, string> // Custom shortcode → emoji ID (e.g. lgtm → +1)
+	migrationExcludedFolders: string[] // Folders skipped by the vault-wide conversion
+	triggerString: string // Characters that open the suggester
+	minQueryLength: number // Characters to type after the trigger before suggesting
+	triggerPrecedingChars: TriggerPrecedingChars // What may come right before the trigger
+	triggerExcludedContexts: SuggesterContext[] // Contexts where the suggester never opens
+	searchLanguages: string[] // Extra search languages; the first also names suggestions
+	emoticonReplacement: boolean // Replace emoticons like :) with emojis while typing
+	customEmoticons: Record<string, string> // User-added or changed emoticon → emoji ID
+	disabledEmoticons: string[] // Built-in emoticons the user removed
+	shortcodeDiagnostics: boolean // Underline shortcodes that don't resolve in the editor
+	noteIconProperty: string // Frontmatter property holding a note's icon emoji ('' disables)
+	favoriteCommands: boolean // Register an "Insert <emoji>" command per favorite
 }
 
 export const DEFAULT_SETTINGS: QuickEmojiSettings = {
+	schemaVersion: SETTINGS_VERSION,
 	skin: 0,
+	skinTones: {},
 	recentCount: 20,
-	favorites: [],
+	syncRecentEmojis: false,
+	emojiUsage: {},
+	favoriteGroups: [],
 	insertionFormat: 'unicode', // Default to Unicode for backward compatibility
+	insertionDialect: 'emoji-mart',
+	shortcodeDialects: [],
+	customEmojiFolder: '',
+	aliases: {},
+	migrationExcludedFolders: [],
+	triggerString: ':',
+	minQueryLength: 1,
+	triggerPrecedingChars: 'whitespace',
+	triggerExcludedContexts: [],
+	searchLanguages: [],
+	emoticonReplacement: false,
+	customEmoticons: {},
+	disabledEmoticons: [],
+	shortcodeDiagnostics: false,
+	noteIconProperty: '',
+	favoriteCommands: false,
+}
+
+/**
+ * List stored IDs that don't resolve, as shortcodes
+ */
+function formatUnresolved(ids: string[]): string {
+	return ids.map((id) => `:${id}:`).join(', ')
 }
 
 export class QuickEmojiSettingTab extends PluginSettingTab {
@@ -52,6 +127,27 @@ export class QuickEmojiSettingTab extends PluginSettingTab {
 						const skin = parseInt(value)
 						this.plugin.settings.skin = skin as SkinSetting
 						await this.plugin.saveSettings()
+						this.plugin.refreshEmojiRendering()
+					})
+			})
+
+		// Skin tones remembered per emoji
+		const skinToneCount = Object.keys(this.plugin.settings.skinTones).length
+		new Setting(containerEl)
+			.setName('Per-emoji skin tones')
+			.setDesc(
+				`Press Tab in the suggester (or use its hand button) to pick a skin tone for a single emoji. It is remembered and overrides the default skin tone. ${skinToneCount} ${skinToneCount === 1 ? 'emoji has' : 'emojis have'} their own skin tone.`
+			)
+			.addButton((button) => {
+				button
+					.setButtonText('Reset')
+					.setDisabled(skinToneCount === 0)
+					.onClick(async () => {
+						this.plugin.settings.skinTones = {}
+						setEmojiSkinTones({})
+						await this.plugin.saveSettings()
+						this.plugin.refreshEmojiRendering()
+						await this.display() // Refresh the view
 					})
 			})
 
@@ -75,10 +171,34 @@ export class QuickEmojiSettingTab extends PluginSettingTab {
 					})
 			})
 
+		// Shortcode dialect used when inserting shortcodes
+		new Setting(containerEl)
+			.setName('Shortcode dialect')
+			.setDesc(
+				'Which shortcode names to write in shortcode format, e.g. :thumbsup: for GitHub or :slight_smile: for Discord. Also used when converting emojis to shortcodes.'
+			)
+			.addDropdown((dropdown) => {
+				for (const [dialect, label] of Object.entries(
+					SHORTCODE_DIALECTS
+				)) {
+					dropdown.addOption(dialect, label)
+				}
+				dropdown
+					.setValue(this.plugin.settings.insertionDialect)
+					.onChange(async (value) => {
+						this.plugin.settings.insertionDialect =
+							value as ShortcodeDialect
+						await this.plugin.saveSettings()
+						await this.plugin.updateShortcodeDialects()
+					})
+			})
+
 		// Recent emoji count
 		new Setting(containerEl)
 			.setName('Recent emoji count')
-			.setDesc('Number of recent emojis to remember.')
+			.setDesc(
+				'Number of recent emojis to show, ranked by how often and how recently you used them.'
+			)
 			.addSlider((slider) => {
 				slider
 					.setLimits(5, 50, 5)
@@ -86,10 +206,74 @@ export class QuickEmojiSettingTab extends PluginSettingTab {
 					.setDynamicTooltip()
 					.onChange(async (value) => {
 						this.plugin.settings.recentCount = value
+						this.plugin.updateRecentEmojis()
+						await this.plugin.saveSettings()
+					})
+			})
+
+		// Where usage history is stored
+		new Setting(containerEl)
+			.setName('Sync recent emojis')
+			.setDesc(
+				'Store recent emojis and usage history in the plugin data, so they follow you between devices through Obsidian Sync or git. Turn off to keep a separate history on each device.'
+			)
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.syncRecentEmojis)
+					.onChange(async (value) => {
+						await this.plugin.setUsageSync(value)
+					})
+			})
+
+		// Suggester trigger section
+		this.renderTriggerSettings(containerEl)
+
+		// Search languages section
+		this.renderSearchLanguages(containerEl)
+
+		// Shortcode dialects section
+		this.renderShortcodeDialects(containerEl)
+
+		// Custom emoji folder
+		new Setting(containerEl)
+			.setName('Custom emoji folder')
+			.setDesc(
+				'Vault folder with PNG, SVG or GIF images to use as custom emojis. ' +
+					'Each file name becomes a shortcode (e.g. logo.png → :logo:). Leave empty to disable.'
+			)
+			.addText((text) => {
+				text.setPlaceholder('Assets/Emojis')
+					.setValue(this.plugin.settings.customEmojiFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.customEmojiFolder = value
 						await this.plugin.saveSettings()
+						this.plugin.customEmojis.scan()
+						this.plugin.refreshEmojiRendering()
 					})
 			})
 
+		// Note icons from frontmatter
+		new Setting(containerEl)
+			.setName('Note icon property')
+			.setDesc(
+				"Frontmatter property whose emoji is shown next to the note name in the file explorer, tab headers and the inline title, e.g. emoji: 🚀 or emoji: :rocket:. Note icons are off until you enter a property name. Avoid properties other plugins write, like Iconize's icon."
+			)
+			.addText((text) => {
+				text.setPlaceholder('emoji')
+					.setValue(this.plugin.settings.noteIconProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.noteIconProperty = value
+						await this.plugin.saveSettings()
+						this.plugin.noteIcons.reload()
+					})
+			})
+
+		// Shortcode aliases section
+		await this.renderAliases(containerEl)
+
+		// Emoticon replacement section
+		await this.renderEmoticons(containerEl)
+
 		// Favorites section
 		await this.renderFavoriteEmojis(containerEl)
 
@@ -97,87 +281,680 @@ export class QuickEmojiSettingTab extends PluginSettingTab {
 		await this.renderRecentEmojis(containerEl)
 	}
 
+	private renderTriggerSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl).setHeading().setName('Suggester trigger')
+
+		new Setting(containerEl)
+			.setName('Trigger')
+			.setDesc(
+				'Characters that open the emoji suggester, e.g. ":" or ";;".'
+			)
+			.addText((text) => {
+				text.setPlaceholder(':')
+					.setValue(this.plugin.settings.triggerString)
+					.onChange(async (value) => {
+						// Whitespace can't be part of a trigger
+						const trigger = value.replace(/\s/g, '')
+						if (!trigger) return
+						this.plugin.settings.triggerString = trigger
+						await this.plugin.saveSettings()
+					})
+			})
+
+		new Setting(containerEl)
+			.setName('Minimum query length')
+			.setDesc(
+				'Characters to type after the trigger before suggestions appear. Use 0 to show favorites and recents right away.'
+			)
+			.addSlider((slider) => {
+				slider
+					.setLimits(0, 5, 1)
+					.setValue(this.plugin.settings.minQueryLength)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.minQueryLength = value
+						await this.plugin.saveSettings()
+					})
+			})
+
+		new Setting(containerEl)
+			.setName('Allowed before trigger')
+			.setDesc('What may come directly before the trigger.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('whitespace', 'Start of line or whitespace')
+					.addOption('brackets', 'Whitespace or opening brackets')
+					.addOption('punctuation', 'Whitespace or punctuation')
+					.addOption('any', 'Anything')
+					.setValue(this.plugin.settings.triggerPrecedingChars)
+					.onChange(async (value) => {
+						this.plugin.settings.triggerPrecedingChars =
+							value as TriggerPrecedingChars
+						await this.plugin.saveSettings()
+					})
+			})
+
+		const contexts: Array<{ context: SuggesterContext; name: string }> = [
+			{ context: 'heading', name: 'headings' },
+			{ context: 'table', name: 'tables' },
+			{ context: 'frontmatter', name: 'frontmatter' },
+			{ context: 'code', name: 'code blocks and inline code' },
+		]
+		for (const { context, name } of contexts) {
+			new Setting(containerEl)
+				.setName(`Disable in ${name}`)
+				.addToggle((toggle) => {
+					toggle
+						.setValue(
+							this.plugin.settings.triggerExcludedContexts.includes(
+								context
+							)
+						)
+						.onChange(async (value) => {
+							const excluded =
+								this.plugin.settings.triggerExcludedContexts.filter(
+									(c) => c !== context
+								)
+							this.plugin.settings.triggerExcludedContexts = value
+								? [...excluded, context]
+								: excluded
+							await this.plugin.saveSettings()
+						})
+				})
+		}
+	}
+
+	private renderSearchLanguages(containerEl: HTMLElement): void {
+		new Setting(containerEl).setHeading().setName('Search languages')
+		containerEl.createEl('small', {
+			text: 'English is always searchable. Emoji names in the suggester use the first language you enable.',
+		})
+
+		for (const [code, label] of Object.entries(SEARCH_LANGUAGES)) {
+			new Setting(containerEl).setName(label).addToggle((toggle) => {
+				toggle
+					.setValue(
+						this.plugin.settings.searchLanguages.includes(code)
+					)
+					.onChange(async (value) => {
+						const languages =
+							this.plugin.settings.searchLanguages.filter(
+								(language) => language !== code
+							)
+						this.plugin.settings.searchLanguages = value
+							? [...languages, code]
+							: languages
+						await this.plugin.saveSettings()
+						await setSearchLanguages(
+							this.plugin.settings.searchLanguages
+						)
+					})
+			})
+		}
+	}
+
+	private renderShortcodeDialects(containerEl: HTMLElement): void {
+		new Setting(containerEl).setHeading().setName('Shortcode dialects')
+		containerEl.createEl('small', {
+			text: 'Render shortcodes from other platforms, e.g. notes imported from GitHub issues or Slack exports. emoji-mart ids and the shortcode dialect above always render.',
+		})
+
+		for (const [dialect, label] of Object.entries(SHORTCODE_DIALECTS)) {
+			if (dialect === 'emoji-mart') continue
+			new Setting(containerEl).setName(label).addToggle((toggle) => {
+				toggle
+					.setValue(
+						this.plugin.settings.shortcodeDialects.includes(
+							dialect as ShortcodeDialect
+						)
+					)
+					.onChange(async (value) => {
+						const dialects =
+							this.plugin.settings.shortcodeDialects.filter(
+								(d) => d !== dialect
+							)
+						this.plugin.settings.shortcodeDialects = value
+							? [...dialects, dialect as ShortcodeDialect]
+							: dialects
+						await this.plugin.saveSettings()
+						await this.plugin.updateShortcodeDialects()
+					})
+			})
+		}
+
+		new Setting(containerEl)
+			.setName('Highlight unknown shortcodes')
+			.setDesc(
+				'Underline shortcodes that no emoji matches, such as typos. Right-click one to replace it with the closest matching emoji.'
+			)
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.shortcodeDiagnostics)
+					.onChange(async (value) => {
+						this.plugin.settings.shortcodeDiagnostics = value
+						await this.plugin.saveSettings()
+						this.plugin.refreshEmojiRendering()
+					})
+			})
+	}
+
+	private async renderAliases(containerEl: HTMLElement): Promise<void> {
+		new Setting(containerEl).setHeading().setName('Shortcode aliases')
+		containerEl.createEl('small', {
+			text: 'Map your own shortcodes to existing emoji ids, e.g. lgtm → +1.',
+		})
+
+		let emojiMap: Record<string, Emoji>
+		try {
+			emojiMap = await getEmojiMap()
+		} catch {
+			containerEl.createEl('p', { text: 'Failed to load emoji data' })
+			return
+		}
+
+		// Existing aliases, editable target id and delete button
+		const aliases = Object.entries(this.plugin.settings.aliases).sort(
+			([a], [b]) => a.localeCompare(b)
+		)
+		for (const [alias, emojiId] of aliases) {
+			const setting = new Setting(containerEl).setName(`:${alias}:`)
+			const updateDesc = (id: string) => {
+				const emoji = emojiMap[id]
+				setting.setDesc(
+					emoji
+						? `${getEmojiWithSkin(emoji, this.plugin.settings.skin)} ${emoji.name}`
+						: 'Unknown emoji id'
+				)
+			}
+			updateDesc(emojiId)
+
+			setting
+				.addText((text) => {
+					text.setPlaceholder('Emoji id')
+						.setValue(emojiId)
+						.onChange(async (value) => {
+							const id = value.trim()
+							updateDesc(id)
+							// Only persist targets that resolve
+							if (!emojiMap[id]) return
+							this.plugin.settings.aliases = {
+								...this.plugin.settings.aliases,
+								[alias]: id,
+							}
+							await this.plugin.saveSettings()
+							this.plugin.refreshEmojiRendering()
+						})
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon('trash')
+						.setTooltip('Delete alias')
+						.onClick(async () => {
+							const { [alias]: _removed, ...rest } =
+								this.plugin.settings.aliases
+							this.plugin.settings.aliases = rest
+							await this.plugin.saveSettings()
+							this.plugin.refreshEmojiRendering()
+							await this.display() // Refresh the view
+						})
+				})
+		}
+
+		// New alias form
+		let newAlias = ''
+		let newEmojiId = ''
+		new Setting(containerEl)
+			.setName('Add alias')
+			.addText((text) => {
+				text.setPlaceholder('Alias (e.g. lgtm)').onChange((value) => {
+					newAlias = value
+				})
+			})
+			.addText((text) => {
+				text.setPlaceholder('Emoji id (e.g. +1)').onChange((value) => {
+					newEmojiId = value
+				})
+			})
+			.addButton((button) => {
+				button.setButtonText('Add').onClick(async () => {
+					const alias = sanitizeShortcode(newAlias)
+					const emojiId = newEmojiId.trim()
+					const error = this.validateAlias(alias, emojiId, emojiMap)
+					if (error) {
+						new Notice(`Quick Emoji: ${error}`)
+						return
+					}
+
+					this.plugin.settings.aliases = {
+						...this.plugin.settings.aliases,
+						[alias]: emojiId,
+					}
+					await this.plugin.saveSettings()
+					this.plugin.refreshEmojiRendering()
+					await this.display() // Refresh the view
+				})
+			})
+	}
+
+	/**
+	 * Validate a new alias
+	 * @returns An error message, or null if the alias can be added
+	 */
+	private validateAlias(
+		alias: string,
+		emojiId: string,
+		emojiMap: Record<string, Emoji>
+	): string | null {
+		if (!alias) return 'Alias cannot be empty.'
+		if (emojiMap[alias]) {
+			return `:${alias}: is already a built-in emoji id.`
+		}
+		if (
+			Object.prototype.hasOwnProperty.call(
+				this.plugin.settings.aliases,
+				alias
+			)
+		) {
+			return `:${alias}: is already defined.`
+		}
+		if (!emojiMap[emojiId]) return `Unknown emoji id "${emojiId}".`
+		return null
+	}
+
+	private async renderEmoticons(containerEl: HTMLElement): Promise<void> {
+		new Setting(containerEl).setHeading().setName('Emoticons')
+
+		new Setting(containerEl)
+			.setName('Replace emoticons')
+			.setDesc(
+				'Turn emoticons like :) or <3 into emojis after you type a space or punctuation. Code and math are left untouched; undo restores the emoticon.'
+			)
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.emoticonReplacement)
+					.onChange(async (value) => {
+						this.plugin.settings.emoticonReplacement = value
+						await this.plugin.saveSettings()
+						await this.display() // Show or hide the table
+					})
+			})
+
+		if (!this.plugin.settings.emoticonReplacement) return
+
+		let emojiMap: Record<string, Emoji>
+		let table: Record<string, string>
+		try {
+			emojiMap = await getEmojiMap()
+			table = await this.plugin.emoticons.getTable()
+		} catch {
+			containerEl.createEl('p', { text: 'Failed to load emoji data' })
+			return
+		}
+
+		const resolve = (id: string): Emoji | null =>
+			this.plugin.customEmojis.get(id) ??
+			lookupEmoji(emojiMap, id, this.plugin.settings.aliases)
+		const save = async () => {
+			await this.plugin.saveSettings()
+			await this.plugin.emoticons.load()
+		}
+
+		// Existing emoticons, editable target id and delete button
+		for (const [emoticon, emojiId] of Object.entries(table)) {
+			const setting = new Setting(containerEl).setName(emoticon)
+			const updateDesc = (id: string) => {
+				const emoji = resolve(id)
+				setting.setDesc(
+					emoji
+						? `${getEmojiWithSkin(emoji, this.plugin.settings.skin)} ${emoji.name}`
+						: 'Unknown emoji id'
+				)
+			}
+			updateDesc(emojiId)
+
+			setting
+				.addText((text) => {
+					text.setPlaceholder('Emoji id')
+						.setValue(emojiId)
+						.onChange(async (value) => {
+							const id = value.trim()
+							updateDesc(id)
+							// Only persist targets that resolve
+							if (!resolve(id)) return
+							this.plugin.settings.customEmoticons = {
+								...this.plugin.settings.customEmoticons,
+								[emoticon]: id,
+							}
+							await save()
+						})
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon('trash')
+						.setTooltip('Delete emoticon')
+						.onClick(async () => {
+							const { [emoticon]: _removed, ...rest } =
+								this.plugin.settings.customEmoticons
+							this.plugin.settings.customEmoticons = rest
+							// Built-in emoticons stay removed until restored
+							this.plugin.settings.disabledEmoticons = [
+								...this.plugin.settings.disabledEmoticons.filter(
+									(e) => e !== emoticon
+								),
+								emoticon,
+							]
+							await save()
+							await this.display() // Refresh the view
+						})
+				})
+		}
+
+		// New emoticon form
+		let newEmoticon = ''
+		let newEmojiId = ''
+		new Setting(containerEl)
+			.setName('Add emoticon')
+			.addText((text) => {
+				text.setPlaceholder('Emoticon (e.g. :-3)').onChange((value) => {
+					newEmoticon = value
+				})
+			})
+			.addText((text) => {
+				text.setPlaceholder('Emoji id (e.g. cat)').onChange((value) => {
+					newEmojiId = value
+				})
+			})
+			.addButton((button) => {
+				button.setButtonText('Add').onClick(async () => {
+					const emoticon = newEmoticon.trim()
+					const emojiId = newEmojiId.trim()
+					if (!emoticon || /\s/.test(emoticon)) {
+						new Notice(
+							'Quick Emoji: Emoticons cannot be empty or contain spaces.'
+						)
+						return
+					}
+					if (!resolve(emojiId)) {
+						new Notice(
+							`Quick Emoji: Unknown emoji id "${emojiId}".`
+						)
+						return
+					}
+
+					this.plugin.settings.customEmoticons = {
+						...this.plugin.settings.customEmoticons,
+						[emoticon]: emojiId,
+					}
+					this.plugin.settings.disabledEmoticons =
+						this.plugin.settings.disabledEmoticons.filter(
+							(e) => e !== emoticon
+						)
+					await save()
+					await this.display() // Refresh the view
+				})
+			})
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText('Restore default emoticons')
+				.onClick(async () => {
+					this.plugin.settings.customEmoticons = {}
+					this.plugin.settings.disabledEmoticons = []
+					await save()
+					await this.display() // Refresh the view
+				})
+		})
+	}
+
 	private async renderFavoriteEmojis(
 		containerEl: HTMLElement
 	): Promise<void> {
 		new Setting(containerEl).setHeading().setName('Favorite emojis')
 		containerEl.createEl('small', {
-			text: 'Click to insert. Star icon in suggester to add/remove.',
+			text: 'Drag to reorder or move between groups. Click to insert. The star icon in the suggester adds to the first group.',
 		})
 
-		if (this.plugin.settings.favorites.length > 0) {
+		const groups = this.plugin.settings.favoriteGroups
+		// Handlers read the live groups, since renaming doesn't redisplay
+		const current = () => this.plugin.settings.favoriteGroups
+		const update = async (updated: FavoriteGroup[]) => {
+			await this.plugin.setFavoriteGroups(updated)
+			await this.display() // Refresh the view
+		}
+
+		new Setting(containerEl)
+			.setName('Command per favorite')
+			.setDesc(
+				'Add an "Insert" command for each favorite emoji, so you can assign it a hotkey. "Insert favorite #1" to "#10" are always available.'
+			)
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.favoriteCommands)
+					.onChange(async (value) => {
+						this.plugin.settings.favoriteCommands = value
+						await this.plugin.saveSettings()
+						await this.plugin.emojiCommands.refreshFavoriteCommands()
+					})
+			})
+
+		if (groups.length === 0) {
+			containerEl.createEl('p', {
+				text: 'No favorite emojis yet. Use the star icon in the emoji suggester to add some!',
+				cls: 'setting-item-description',
+			})
+		}
+
+		const { emojis: favoriteEmojis, unresolved } =
+			await this.plugin.resolveEmojiIds(getFavoriteIds(groups))
+		// Emoji being dragged, shared by all groups so emojis can move between them
+		let draggedId: string | null = null
+
+		for (const [groupIndex, group] of groups.entries()) {
+			// Group header: editable name, ordering and delete buttons
+			new Setting(containerEl)
+				.setClass('favorite-group-header')
+				.addText((text) => {
+					text.setPlaceholder('Group name').setValue(group.name)
+					// Rename once editing ends (blur or Enter), not on every
+					// keystroke
+					text.inputEl.addEventListener('change', async () => {
+						const name = text.getValue().trim()
+						const previous = current()[groupIndex]?.name ?? ''
+						if (!name) {
+							text.setValue(previous)
+							return
+						}
+						if (name === previous) return
+						await this.plugin.setFavoriteGroups(
+							current().map((g, index) =>
+								index === groupIndex ? { ...g, name } : g
+							)
+						)
+					})
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon('arrow-up')
+						.setTooltip('Move group up')
+						.setDisabled(groupIndex === 0)
+						.onClick(async () => {
+							if (groupIndex === 0) return
+							const updated = [...current()]
+							updated.splice(
+								groupIndex - 1,
+								0,
+								...updated.splice(groupIndex, 1)
+							)
+							await update(updated)
+						})
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon('arrow-down')
+						.setTooltip('Move group down')
+						.setDisabled(groupIndex === groups.length - 1)
+						.onClick(async () => {
+							if (groupIndex === groups.length - 1) return
+							const updated = [...current()]
+							updated.splice(
+								groupIndex + 1,
+								0,
+								...updated.splice(groupIndex, 1)
+							)
+							await update(updated)
+						})
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon('trash')
+						.setTooltip('Delete group and its emojis')
+						.onClick(async () => {
+							await update(
+								current().filter(
+									(_g, index) => index !== groupIndex
+								)
+							)
+						})
+				})
+
 			const favoritesContainer = containerEl.createDiv({
 				cls: 'favorite-emojis',
 			})
+			if (group.emojis.length === 0) {
+				favoritesContainer.createSpan({
+					cls: 'favorite-emojis-empty',
+					text: 'Drop emojis here.',
+				})
+			}
 
-			// Import search functionality to resolve emoji IDs
+			// Dropping on the empty area of a group appends to it
+			favoritesContainer.addEventListener('dragover', (evt) => {
+				if (draggedId) evt.preventDefault()
+			})
+			favoritesContainer.addEventListener('drop', async (evt) => {
+				if (!draggedId) return
+				evt.preventDefault()
+				await update(
+					moveFavorite(
+						current(),
+						draggedId,
+						groupIndex,
+						group.emojis.length
+					)
+				)
+			})
 
-			const searchIndex = await getSearchIndex()
+			for (const [position, favoriteId] of group.emojis.entries()) {
+				const emoji = favoriteEmojis.get(favoriteId) ?? null
+				const emojiEl = favoritesContainer.createSpan({
+					cls: emoji
+						? 'favorite-emoji'
+						: 'favorite-emoji is-unresolved',
+					title: emoji
+						? `Insert ${emoji.name}`
+						: `Unknown emoji :${favoriteId}:`,
+					attr: { draggable: 'true' },
+				})
+				if (emoji) {
+					setEmojiContent(emojiEl, emoji, this.plugin.settings.skin)
+				} else {
+					// Keep unknown ids visible so they can still be removed
+					emojiEl.setText(`:${favoriteId}:`)
+				}
 
-			if (searchIndex) {
-				// Display favorite emojis
-				for (const favoriteId of this.plugin.settings.favorites) {
-					try {
-						// Search for the emoji by ID
-						const results = await searchIndex.search(favoriteId)
-						if (results && results.length > 0) {
-							const emoji =
-								results.find(
-									(e: unknown) =>
-										(e as Emoji).id === favoriteId
-								) || results[0]
+				// Add click handler to insert the emoji using user's preferred format
+				emojiEl.addEventListener('click', () => {
+					const editor = getActiveEditor(this.app)
+					if (editor && emoji) {
+						const text = insertEmoji(
+							editor,
+							emoji,
+							this.plugin.settings.insertionFormat,
+							this.plugin.settings.skin,
+							this.plugin.settings.insertionDialect
+						)
+						this.plugin.emitEmojiInserted(emoji, text, 'settings')
+					}
+				})
 
-							const emojiChar = getEmojiWithSkin(
-								emoji,
-								this.plugin.settings.skin
-							)
+				// Drag to reorder: dropping on an emoji inserts before it
+				emojiEl.addEventListener('dragstart', (evt) => {
+					draggedId = favoriteId
+					evt.dataTransfer?.setData('text/plain', favoriteId)
+					emojiEl.addClass('is-dragging')
+				})
+				emojiEl.addEventListener('dragend', () => {
+					draggedId = null
+					emojiEl.removeClass('is-dragging')
+				})
+				emojiEl.addEventListener('drop', async (evt) => {
+					if (!draggedId) return
+					evt.preventDefault()
+					evt.stopPropagation()
+					if (draggedId === favoriteId) return
+					await update(
+						moveFavorite(current(), draggedId, groupIndex, position)
+					)
+				})
 
-							const emojiEl = favoritesContainer.createSpan({
-								cls: 'favorite-emoji',
-								text: emojiChar,
-								title: `Insert ${emoji.name}`,
-							})
-
-							// Add click handler to insert the emoji using user's preferred format
-							emojiEl.addEventListener('click', () => {
-								const editor = getActiveEditor(this.app)
-								if (editor) {
-									insertEmoji(
-										editor,
-										emoji,
-										this.plugin.settings.insertionFormat,
-										this.plugin.settings.skin
-									)
-								}
-							})
-						}
-					} catch (error) {
-						if (process.env.NODE_ENV === 'development') {
-							console.error(
-								'Failed to render favorite emoji:',
-								favoriteId,
-								error
-							)
-						}
-					}
-				}
+				// Per-item remove button
+				const removeEl = emojiEl.createSpan({
+					cls: 'favorite-emoji-remove',
+					text: '×',
+					attr: { 'aria-label': 'Remove from favorites' },
+				})
+				removeEl.addEventListener('click', async (evt) => {
+					evt.stopPropagation()
+					await update(removeFavorite(current(), favoriteId))
+				})
 			}
+		}
+
+		if (unresolved.length > 0) {
+			containerEl.createEl('p', {
+				text: `Some favorites no longer match an emoji and can only be removed: ${formatUnresolved(unresolved)}`,
+				cls: 'setting-item-description mod-warning',
+			})
+		}
 
+		// New group form
+		let newGroupName = ''
+		new Setting(containerEl)
+			.setName('Add group')
+			.setDesc('Groups show as labeled sections in the suggester.')
+			.addText((text) => {
+				text.setPlaceholder('Group name (e.g. Status)').onChange(
+					(value) => {
+						newGroupName = value
+					}
+				)
+			})
+			.addButton((button) => {
+				button.setButtonText('Add').onClick(async () => {
+					const name = newGroupName.trim()
+					if (!name) {
+						new Notice('Quick Emoji: Group name cannot be empty.')
+						return
+					}
+					if (current().some((group) => group.name === name)) {
+						new Notice(
+							`Quick Emoji: Group "${name}" already exists.`
+						)
+						return
+					}
+					await update([...current(), { name, emojis: [] }])
+				})
+			})
+
+		if (getFavoriteIds(groups).length > 0) {
 			// Add clear button
 			new Setting(containerEl).addButton((button) => {
 				button
 					.setButtonText('Clear favorite emojis')
 					.onClick(async () => {
-						this.plugin.settings.favorites = []
-						await this.plugin.saveSettings()
-						await this.display() // Refresh the view
+						await update([])
 					})
 			})
-		} else {
-			containerEl.createEl('p', {
-				text: 'No favorite emojis yet. Use the star icon in the emoji suggester to add some!',
-				cls: 'setting-item-description',
-			})
 		}
 	}
 
@@ -190,68 +967,41 @@ export class QuickEmojiSettingTab extends PluginSettingTab {
 				cls: 'recent-emojis',
 			})
 
-			// Get the search index for emoji lookup
-			const searchIndex = await getSearchIndex()
-			if (!searchIndex) {
-				recentContainer.createEl('p', {
-					text: 'Failed to load emoji data',
-				})
-				return
-			}
+			const { emojis: recentEmojis, unresolved } =
+				await this.plugin.resolveEmojiIds(this.plugin.recentEmojis)
 
-			// Display recent emojis by looking up IDs
+			// Display recent emojis resolved by exact ID
 			for (const emojiId of this.plugin.recentEmojis) {
-				// Skip invalid emoji IDs
-				if (
-					!emojiId ||
-					typeof emojiId !== 'string' ||
-					emojiId.trim() === ''
-				)
-					continue
-
-				try {
-					// Look up the emoji by ID
-					const results = await searchIndex.search(emojiId)
-					if (results && results.length > 0) {
-						// Find exact match by ID
-						const exactMatch = results.find(
-							(e: Emoji) => e.id === emojiId || e.name === emojiId
-						)
-						const emoji = exactMatch || results[0]
+				const emoji = recentEmojis.get(emojiId)
+				if (!emoji) continue
 
-						const emojiChar = getEmojiWithSkin(
-							emoji,
-							this.plugin.settings.skin
-						)
-
-						const emojiEl = recentContainer.createSpan({
-							cls: 'recent-emoji',
-							text: emojiChar,
-							title: `Insert ${emoji.name}`,
-						})
+				const emojiEl = recentContainer.createSpan({
+					cls: 'recent-emoji',
+					title: `Insert ${emoji.name}`,
+				})
+				setEmojiContent(emojiEl, emoji, this.plugin.settings.skin)
 
-						// Add click handler to insert the emoji using user's preferred format
-						emojiEl.addEventListener('click', () => {
-							const editor = getActiveEditor(this.app)
-							if (editor) {
-								insertEmoji(
-									editor,
-									emoji,
-									this.plugin.settings.insertionFormat,
-									this.plugin.settings.skin
-								)
-							}
-						})
-					}
-				} catch (error) {
-					if (process.env.NODE_ENV === 'development') {
-						console.error(
-							'Failed to render recent emoji:',
-							emojiId,
-							error
+				// Add click handler to insert the emoji using user's preferred format
+				emojiEl.addEventListener('click', () => {
+					const editor = getActiveEditor(this.app)
+					if (editor) {
+						const text = insertEmoji(
+							editor,
+							emoji,
+							this.plugin.settings.insertionFormat,
+							this.plugin.settings.skin,
+							this.plugin.settings.insertionDialect
 						)
+						this.plugin.emitEmojiInserted(emoji, text, 'settings')
 					}
-				}
+				})
+			}
+
+			if (unresolved.length > 0) {
+				containerEl.createEl('p', {
+					text: `Some recent emojis no longer match an emoji and are hidden: ${formatUnresolved(unresolved)}`,
+					cls: 'setting-item-description mod-warning',
+				})
 			}
 
 			// Add clear button
@@ -0,0 +1,143 @@
+import { App, MarkdownView, Modal, Notice, TFile } from 'obsidian'
+
+import type QuickEmojiPlugin from '../main'
+import {
+	findUnresolvedShortcodes,
+	type UnresolvedShortcode,
+} from '../services/shortcode-diagnostics'
+
+/**
+ * Unresolved shortcodes found in one note
+ */
+interface NoteShortcodes {
+	file: TFile
+	shortcodes: UnresolvedShortcode[]
+	lines: string[]
+}
+
+/**
+ * Modal listing every shortcode that doesn't resolve in a note or the
+ * whole vault. Clicking an entry opens the note with the shortcode selected.
+ */
+export class UnresolvedShortcodesModal extends Modal {
+	plugin: QuickEmojiPlugin
+
+	/**
+	 * @param files - Notes to scan
+	 * @param scopeLabel - Describes the scanned notes (e.g. 'this note')
+	 */
+	constructor(
+		app: App,
+		plugin: QuickEmojiPlugin,
+		private files: TFile[],
+		private scopeLabel: string
+	) {
+		super(app)
+		this.plugin = plugin
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this
+		contentEl.empty()
+		this.titleEl.setText('Unresolved shortcodes')
+		const statusEl = contentEl.createEl('p', {
+			text: 'Scanning notes…',
+			cls: 'setting-item-description',
+		})
+
+		const notes = await this.scan()
+		const total = notes.reduce(
+			(sum, note) => sum + note.shortcodes.length,
+			0
+		)
+		statusEl.setText(
+			total === 0
+				? `No unresolved shortcodes in ${this.scopeLabel}.`
+				: `Found ${total} unresolved ${total === 1 ? 'shortcode' : 'shortcodes'} in ${notes.length} ${notes.length === 1 ? 'note' : 'notes'}. Code, math and times are ignored.`
+		)
+
+		for (const note of notes) {
+			const noteEl = contentEl.createDiv({ cls: 'qe-unresolved-note' })
+			noteEl.createDiv({
+				cls: 'qe-unresolved-path',
+				text: note.file.path,
+			})
+
+			const listEl = noteEl.createEl('ul', { cls: 'qe-unresolved-list' })
+			for (const shortcode of note.shortcodes) {
+				const itemEl = listEl.createEl('li', {
+					cls: 'qe-unresolved-item',
+				})
+				itemEl.createSpan({
+					cls: 'qe-unresolved-line',
+					text: `Line ${shortcode.line + 1}`,
+				})
+				itemEl.createEl('code', { text: `:${shortcode.shortcode}:` })
+				itemEl.createSpan({
+					cls: 'qe-unresolved-context',
+					text: note.lines[shortcode.line].trim(),
+				})
+				itemEl.addEventListener('click', () =>
+					this.reveal(note.file, shortcode)
+				)
+			}
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty()
+	}
+
+	/**
+	 * Find the unresolved shortcodes in every note
+	 * @returns Notes with at least one unresolved shortcode, by path
+	 */
+	private async scan(): Promise<NoteShortcodes[]> {
+		const notes: NoteShortcodes[] = []
+		const options = this.plugin.getConversionOptions()
+
+		for (const file of [...this.files].sort((a, b) =>
+			a.path.localeCompare(b.path)
+		)) {
+			try {
+				const content = await this.app.vault.cachedRead(file)
+				const shortcodes = await findUnresolvedShortcodes(
+					content,
+					options
+				)
+				if (shortcodes.length > 0) {
+					notes.push({ file, shortcodes, lines: content.split('\n') })
+				}
+			} catch (error) {
+				if (process.env.NODE_ENV === 'development') {
+					console.error('Failed to scan note:', file.path, error)
+				}
+			}
+		}
+
+		return notes
+	}
+
+	/**
+	 * Open a note and select an unresolved shortcode
+	 */
+	private async reveal(
+		file: TFile,
+		shortcode: UnresolvedShortcode
+	): Promise<void> {
+		this.close()
+		const leaf = this.app.workspace.getLeaf(false)
+		await leaf.openFile(file)
+
+		if (!(leaf.view instanceof MarkdownView)) {
+			new Notice('Quick Emoji: Could not open the note in an editor.')
+			return
+		}
+		const { editor } = leaf.view
+		const from = editor.offsetToPos(shortcode.from)
+		const to = editor.offsetToPos(shortcode.to)
+		editor.setSelection(from, to)
+		editor.scrollIntoView({ from, to }, true)
+		editor.focus()
+	}
+}
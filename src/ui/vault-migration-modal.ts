@@ -0,0 +1,120 @@
+import { App, Modal, Notice, Setting, TFolder } from 'obsidian'
+
+import type QuickEmojiPlugin from '../main'
+import { VaultEmojiMigration } from '../services/vault-migration'
+
+/**
+ * Modal for configuring and starting a vault-wide emoji format migration
+ */
+export class VaultMigrationModal extends Modal {
+	plugin: QuickEmojiPlugin
+	private folder = ''
+	private dryRun = true
+
+	constructor(app: App, plugin: QuickEmojiPlugin) {
+		super(app)
+		this.plugin = plugin
+	}
+
+	onOpen(): void {
+		const { contentEl } = this
+		contentEl.empty()
+
+		const target =
+			this.plugin.settings.insertionFormat === 'unicode'
+				? 'Unicode emoji'
+				: 'shortcodes'
+		this.titleEl.setText('Convert emojis in vault')
+		contentEl.createEl('p', {
+			text: `Converts emojis in Markdown notes to ${target}, matching your insertion format. Code blocks, inline code and math are left untouched.`,
+		})
+
+		// Folder scope
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Only convert notes inside this folder.')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('', 'Entire vault')
+				this.app.vault
+					.getAllLoadedFiles()
+					.filter(
+						(file): file is TFolder =>
+							file instanceof TFolder && !file.isRoot()
+					)
+					.map((folder) => folder.path)
+					.sort((a, b) => a.localeCompare(b))
+					.forEach((path) => dropdown.addOption(path, path))
+				dropdown.setValue(this.folder).onChange((value) => {
+					this.folder = value
+				})
+			})
+
+		// Folder exclusions, remembered between runs
+		new Setting(contentEl)
+			.setName('Excluded folders')
+			.setDesc('One folder per line. Notes inside are never modified.')
+			.addTextArea((text) => {
+				text.setPlaceholder('Templates\nArchive/Imported')
+					.setValue(
+						this.plugin.settings.migrationExcludedFolders.join('\n')
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.migrationExcludedFolders = value
+							.split('\n')
+							.map((line) => line.trim())
+							.filter((line) => line !== '')
+						await this.plugin.saveSettings()
+					})
+			})
+
+		// Dry run
+		new Setting(contentEl)
+			.setName('Dry run')
+			.setDesc(
+				'Write a report note listing each note and how many emojis would change, without modifying anything.'
+			)
+			.addToggle((toggle) => {
+				toggle.setValue(this.dryRun).onChange((value) => {
+					this.dryRun = value
+				})
+			})
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button.setButtonText('Cancel').onClick(() => this.close())
+			})
+			.addButton((button) => {
+				button
+					.setButtonText('Start')
+					.setCta()
+					.onClick(async () => {
+						this.close()
+						try {
+							await new VaultEmojiMigration(this.plugin).run({
+								folder: this.folder,
+								excludedFolders:
+									this.plugin.settings
+										.migrationExcludedFolders,
+								dryRun: this.dryRun,
+							})
+						} catch (error) {
+							if (process.env.NODE_ENV === 'development') {
+								console.error(
+									'Vault emoji migration failed:',
+									error
+								)
+							}
+							new Notice(
+								this.dryRun
+									? 'Quick Emoji: Could not write the migration report.'
+									: 'Quick Emoji: The migration failed. Some notes may not have been converted.'
+							)
+						}
+					})
+			})
+	}
+
+	onClose(): void {
+		this.contentEl.empty()
+	}
+}
@@ -1,4 +1,6 @@
-import { App, Editor, MarkdownView } from 'obsidian'
+import { App, Editor, EditorPosition, MarkdownView } from 'obsidian'
+
+import type { SuggesterContext } from '../ui/settings-tab'
 
 /**
  * Helper function to get the currently active editor in Obsidian.
@@ -9,3 +11,48 @@ export function getActiveEditor(app: App): Editor | null {
 	const activeView = app.workspace.getActiveViewOfType(MarkdownView)
 	return activeView?.editor || null
 }
+
+/**
+ * Determine which Markdown contexts the cursor is in.
+ * Uses lightweight line scanning, so it works in every editor mode.
+ * @param editor - The Obsidian Editor instance
+ * @param cursor - The cursor position to check
+ * @returns The set of contexts containing the cursor
+ */
+export function getCursorContexts(
+	editor: Editor,
+	cursor: EditorPosition
+): Set<SuggesterContext> {
+	const contexts = new Set<SuggesterContext>()
+	const lineText = editor.getLine(cursor.line)
+
+	// Headings and tables are single-line constructs
+	if (/^#{1,6}\s/.test(lineText)) contexts.add('heading')
+	if (lineText.trimStart().startsWith('|')) contexts.add('table')
+
+	// Inline code: an odd number of backticks before the cursor
+	const beforeCursor = lineText.substring(0, cursor.ch)
+	if ((beforeCursor.match(/`/g) || []).length % 2 === 1) {
+		contexts.add('code')
+	}
+
+	// Frontmatter and fenced code blocks depend on the lines above
+	let inFrontmatter = editor.getLine(0) === '---' && cursor.line > 0
+	let inCodeFence = false
+	for (let line = inFrontmatter ? 1 : 0; line < cursor.line; line++) {
+		const text = editor.getLine(line)
+		if (inFrontmatter) {
+			if (text === '---' || text === '...') inFrontmatter = false
+			continue
+		}
+		const trimmed = text.trim()
+		if (trimmed.startsWith('```') || trimmed.startsWith('~~~')) {
+			inCodeFence = !inCodeFence
+		}
+	}
+
+	if (inFrontmatter) contexts.add('frontmatter')
+	if (inCodeFence) contexts.add('code')
+
+	return contexts
+}
@@ -2,15 +2,105 @@ import { Editor } from 'obsidian'
 
 import { type Emoji } from '@emoji-mart/data'
 
-import type { SkinSetting, InsertionFormat } from '../ui/settings-tab'
+import { getDialectShortcode } from '../services/shortcode-dialects'
+import type {
+	SkinSetting,
+	InsertionFormat,
+	ShortcodeDialect,
+} from '../ui/settings-tab'
 
 /**
- * Helper function to get emoji with the correct skin tone applied.
+ * A custom emoji backed by an image file in the vault.
+ * Shaped like an emoji-mart Emoji so it can flow through the suggester,
+ * favorites and recents unchanged; it simply has no native skins.
+ */
+export interface CustomEmoji extends Emoji {
+	src: string // Resource URL usable as an <img> source
+	path: string // Vault path of the image file ('' for emojis registered through the API)
+}
+
+/**
+ * Check if an emoji is a custom (image) emoji rather than an emoji-mart one
+ * @param emoji - The emoji to check
+ * @returns true if the emoji is backed by an image file
+ */
+export function isCustomEmoji(emoji: Emoji): emoji is CustomEmoji {
+	return !!emoji && typeof (emoji as CustomEmoji).src === 'string'
+}
+
+/**
+ * Create an <img> element for a custom emoji
+ * @param emoji - The custom emoji to render
+ * @param cls - CSS classes for the element
+ * @returns The image element
+ */
+export function createCustomEmojiImage(
+	emoji: CustomEmoji,
+	cls: string
+): HTMLImageElement {
+	const img = document.createElement('img')
+	img.className = cls
+	img.src = emoji.src
+	img.alt = `:${emoji.id}:`
+	img.setAttribute('aria-label', emoji.name)
+	img.draggable = false
+	return img
+}
+
+/**
+ * Describe a rendered emoji in a hover tooltip: its name, the shortcode
+ * behind it and its keywords
+ * @param emoji - The emoji data
+ * @param shortcode - The shortcode as written in the note (e.g. ':rocket:')
+ * @returns Tooltip text, one detail per line
+ */
+export function getEmojiTooltip(emoji: Emoji, shortcode: string): string {
+	const lines = [emoji.name, shortcode]
+	const keywords = (emoji.keywords ?? []).filter(
+		(keyword) => keyword !== emoji.name.toLowerCase()
+	)
+	if (keywords.length > 0) lines.push(keywords.join(', '))
+	return lines.join('\n')
+}
+
+/**
+ * Skin tones remembered for individual emojis, keyed by emoji ID
+ */
+let emojiSkinTones: Record<string, SkinSetting> = {}
+
+/**
+ * Set the per-emoji skin tones that override the default skin tone
+ * @param skinTones - Map of emoji ID to skin tone
+ */
+export function setEmojiSkinTones(
+	skinTones: Record<string, SkinSetting>
+): void {
+	emojiSkinTones = skinTones
+}
+
+/**
+ * The skin tone to use for an emoji: the tone remembered for the emoji,
+ * otherwise the default skin tone
  * @param emojiItem - The emoji object from emoji-mart
- * @param skinTone - The selected skin tone (0-5)
- * @returns The emoji character with the appropriate skin tone
+ * @param skinTone - The default skin tone (0-5)
  */
-export function getEmojiWithSkin(
+export function getEmojiSkinTone(
+	emojiItem: Emoji,
+	skinTone: SkinSetting
+): SkinSetting {
+	return Object.prototype.hasOwnProperty.call(emojiSkinTones, emojiItem.id)
+		? emojiSkinTones[emojiItem.id]
+		: skinTone
+}
+
+/**
+ * Get an emoji's character in exactly the given skin tone, e.g. one spelled
+ * out in a shortcode, ignoring remembered per-emoji tones
+ * @param emojiItem - The emoji object from emoji-mart
+ * @param skinTone - The skin tone (0-5)
+ * @returns The emoji character, or the default variant if the tone is missing
+ */
+export function getEmojiSkinVariant(
 	emojiItem: Emoji,
 	skinTone: SkinSetting
 ): string {
@@ -29,6 +119,60 @@ export function getEmojiWithSkin(
 	)
 }
 
+/**
+ * Helper function to get emoji with the correct skin tone applied.
+ * A skin tone remembered for the emoji takes precedence over skinTone.
+ * @param emojiItem - The emoji object from emoji-mart
+ * @param skinTone - The default skin tone (0-5)
+ * @returns The emoji character with the appropriate skin tone
+ */
+export function getEmojiWithSkin(
+	emojiItem: Emoji,
+	skinTone: SkinSetting
+): string {
+	if (!emojiItem) return ''
+	return getEmojiSkinVariant(emojiItem, getEmojiSkinTone(emojiItem, skinTone))
+}
+
+/**
+ * Write a shortcode with a skin tone suffix. The suffix follows emoji-mart
+ * and Slack (`:wave::skin-tone-4:`, where tones 1-5 are written as 2-6),
+ * or Discord's `:thumbsup_tone3:` in the Discord dialect.
+ * @param shortcode - The shortcode without colons
+ * @param skinTone - The skin tone (0 writes no suffix)
+ * @param dialect - The shortcode dialect
+ */
+export function formatShortcode(
+	shortcode: string,
+	skinTone: SkinSetting,
+	dialect: ShortcodeDialect = 'emoji-mart'
+): string {
+	if (skinTone === 0) return `:${shortcode}:`
+	return dialect === 'discord'
+		? `:${shortcode}_tone${skinTone}:`
+		: `:${shortcode}::skin-tone-${skinTone + 1}:`
+}
+
+/**
+ * Render an emoji into an element, as text for Unicode emojis or as an
+ * image for custom emojis
+ * @param el - The element to render into
+ * @param emoji - The emoji object
+ * @param skinTone - The skin tone setting (0-5)
+ */
+export function setEmojiContent(
+	el: HTMLElement,
+	emoji: Emoji,
+	skinTone: SkinSetting
+): void {
+	if (isCustomEmoji(emoji)) {
+		el.empty()
+		el.appendChild(createCustomEmojiImage(emoji, 'qe-custom-emoji'))
+	} else {
+		el.setText(getEmojiWithSkin(emoji, skinTone))
+	}
+}
+
 /**
  * Sanitize a string to be used as a valid emoji shortcode.
  * @param str - The input string to sanitize
@@ -38,53 +182,85 @@ export function sanitizeShortcode(str: string): string {
 	return (str || '')
 		.trim()
 		.toLowerCase()
-		.replace(/[^a-z0-9_-]/g, '_') // Replace non-allowed characters with underscore
+		.replace(/[^a-z0-9_+-]/g, '_') // Replace non-allowed characters with underscore
 		.replace(/_{2,}/g, '_') // Collapse multiple underscores to single
 		.replace(/^_+|_+$/g, '') // Trim leading/trailing underscores
 		.slice(0, 50) // Limit length to prevent overly long shortcodes
 }
 
+/**
+ * Text for an emoji in the selected insertion format.
+ * @param emoji - The emoji object from emoji-mart
+ * @param format - The insertion format ('unicode' or 'shortcode')
+ * @param skinTone - The skin tone setting (0-5)
+ * @param dialect - Shortcode dialect to write (e.g. 'github' for :thumbsup:)
+ * @returns The Unicode character or the `:shortcode:` to insert, with a
+ * skin tone suffix when a non-default tone applies
+ */
+export function formatEmoji(
+	emoji: Emoji,
+	format: InsertionFormat,
+	skinTone: SkinSetting,
+	dialect: ShortcodeDialect = 'emoji-mart'
+): string {
+	if (format === 'unicode' && !isCustomEmoji(emoji)) {
+		// Use Unicode format with skin tone applied
+		return getEmojiWithSkin(emoji, skinTone)
+	}
+
+	// Keep a non-default skin tone as a suffix, for emojis that have tones
+	const tone =
+		emoji.skins && emoji.skins.length > 1
+			? getEmojiSkinTone(emoji, skinTone)
+			: 0
+
+	// Use shortcode format (custom emojis have no Unicode form)
+	if (emoji.id && !isCustomEmoji(emoji) && dialect !== 'emoji-mart') {
+		return formatShortcode(
+			getDialectShortcode(emoji.id, dialect),
+			tone,
+			dialect
+		)
+	}
+
+	const shortcode = emoji.id
+		? sanitizeShortcode(emoji.id)
+		: sanitizeShortcode(emoji.name)
+
+	if (!shortcode) {
+		console.warn(
+			"formatEmoji: Emoji object is missing both 'id' and 'name' properties. Using fallback ':unknown:'.",
+			emoji
+		)
+		return ':unknown:'
+	}
+	return formatShortcode(shortcode, tone)
+}
+
 /**
  * Centralized function to insert an emoji into the editor based on the selected format.
  * @param editor - The Obsidian Editor instance
  * @param emoji - The emoji object from emoji-mart
  * @param format - The insertion format ('unicode' or 'shortcode')
  * @param skinTone - The skin tone setting (0-5)
+ * @param dialect - Shortcode dialect to write in shortcode format
  * @param context - Optional context for suggestion replacement (with start/end positions)
+ * @returns The inserted text, or '' if nothing was inserted
  */
 export function insertEmoji(
 	editor: Editor,
 	emoji: Emoji,
 	format: InsertionFormat,
 	skinTone: SkinSetting,
+	dialect: ShortcodeDialect,
 	context?: {
 		start: { line: number; ch: number }
 		end: { line: number; ch: number }
 	}
-): void {
-	if (!editor || !emoji) return
-
-	let textToInsert: string
+): string {
+	if (!editor || !emoji) return ''
 
-	if (format === 'unicode') {
-		// Use Unicode format with skin tone applied
-		textToInsert = getEmojiWithSkin(emoji, skinTone)
-	} else {
-		// Use shortcode format
-		const shortcode = emoji.id
-			? sanitizeShortcode(emoji.id)
-			: sanitizeShortcode(emoji.name)
-
-		if (shortcode) {
-			textToInsert = `:${shortcode}:`
-		} else {
-			console.warn(
-				"insertEmoji: Emoji object is missing both 'id' and 'name' properties. Using fallback ':unknown:'.",
-				emoji
-			)
-			textToInsert = ':unknown:'
-		}
-	}
+	const textToInsert = formatEmoji(emoji, format, skinTone, dialect)
 
 	// Insert the emoji using the appropriate method
 	if (context) {
@@ -94,4 +270,5 @@ export function insertEmoji(
 		// Replace current selection (used by recent/favorite clicks)
 		editor.replaceSelection(textToInsert)
 	}
+	return textToInsert
 }